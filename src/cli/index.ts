@@ -1,5 +1,5 @@
 #!/usr/bin/env bun
-import { join, basename } from 'path'
+import { join, dirname, extname, basename } from 'path'
 import {
   readdirSync,
   writeFileSync,
@@ -8,11 +8,33 @@ import {
   readFileSync,
 } from 'fs'
 import { readFile } from 'node:fs/promises'
-import { AdifParser } from 'adif-parser-ts'
-import type { ContestRules, Participant } from 'lib/types'
+import type {
+  Adjudications,
+  ContestRules,
+  DxccDatabase,
+  Participant,
+} from 'lib/types'
+import type { CallsignSource } from 'cli/types'
 import { Command } from 'commander'
-import { scoreContest } from 'index'
-import { formatDateTime } from 'utils'
+import {
+  scoreContest,
+  getUbnReports,
+  formatUbnReport,
+  parseCty,
+  validateContestRules,
+  validateAdjudications,
+  lintContestRules,
+  findRulesNeedingDxcc,
+  checkLog,
+} from 'index'
+import { formatCsvField, formatDateTime } from 'utils'
+import {
+  CALLSIGN_SOURCES,
+  LOG_FILE_EXTENSIONS,
+  isCabrilloFile,
+  parseLogFile,
+  resolveStationCallsign,
+} from 'cli/logs'
 import { AsciiTable3, AlignmentEnum } from 'ascii-table3'
 
 // Define CLI colors for better output formatting
@@ -41,22 +63,76 @@ const program = new Command()
 
 program
   .name('contest-scorer')
-  .description('Score ham radio contests from ADIF files')
+  .description('Score ham radio contests from ADIF and Cabrillo files')
   .version(getVersion())
 
+// Portable callsigns like OA4T/P are written as OA4T_P.txt
+const getReportFileName = (callsign: string) =>
+  `${callsign.replace(/[^A-Za-z0-9-]/g, '_')}.txt`
+
+// Rules needing DXCC data would silently score nothing, so exit when they are
+// used without a --cty file
+const checkDxccNeeded = (rules: ContestRules, cty?: string) => {
+  const rulesNeedingDxcc = findRulesNeedingDxcc(rules)
+  if (cty || rulesNeedingDxcc.length === 0) return
+
+  console.error(
+    `${colors.red}Error: The rules need a DXCC database, give a cty.dat or cty.csv file with --cty:${colors.reset}`
+  )
+  rulesNeedingDxcc.forEach(({ path, message }) =>
+    console.error(`${colors.red}  ${path}: ${message}${colors.reset}`)
+  )
+  process.exit(1)
+}
+
+// Parse the --callsign-from option, exiting when a source is unknown
+const parseCallsignSources = (value: string): CallsignSource[] => {
+  const callsignSources = value
+    .split(',')
+    .map(source => source.trim().toLowerCase())
+  const unknownSources = callsignSources.filter(
+    source => !CALLSIGN_SOURCES.includes(source as CallsignSource)
+  )
+  if (unknownSources.length > 0) {
+    console.error(
+      `${colors.red}Error: Unknown callsign sources: ${unknownSources.join(', ')}${colors.reset}`
+    )
+    process.exit(1)
+  }
+  return callsignSources as CallsignSource[]
+}
+
 program
   .command('score')
-  .description('Score a contest using ADIF files')
-  .requiredOption('-i, --input <dir>', 'Directory containing ADIF files')
+  .description('Score a contest using ADIF and Cabrillo files')
+  .requiredOption(
+    '-i, --input <dir>',
+    'Directory containing ADIF (.adi, .adif) and Cabrillo (.log, .cbr) files'
+  )
   .option(
     '-r, --rules <file>',
-    'JSON file containing contest rules',
+    'JSON file containing contest rules, relative to the input directory',
     'rules.json'
   )
   .option('-o, --output <file>', 'Output CSV file')
   .option('-v, --verbose', 'Display detailed scoring information')
+  .option(
+    '-c, --callsign-from <sources>',
+    `Comma-separated sources of the participant callsign, in order of precedence (${CALLSIGN_SOURCES.join(', ')})`,
+    CALLSIGN_SOURCES.join(',')
+  )
+  .option(
+    '--cty <file>',
+    'cty.dat or cty.csv file used to find the DXCC entity of every callsign'
+  )
+  .option(
+    '--adjudications <file>',
+    'JSON file with the contact overrides, disqualifications and point adjustments decided by the judges'
+  )
   .action(async options => {
     try {
+      const callsignSources = parseCallsignSources(options.callsignFrom)
+
       if (!existsSync(options.input)) {
         console.error(
           `${colors.red}Error: Input directory ${options.input} does not exist${colors.reset}`
@@ -77,28 +153,70 @@ program
       try {
         const rulesJson = await readFile(rulesPath, 'utf-8')
         rules = JSON.parse(rulesJson)
+      } catch (error) {
+        console.error(
+          `${colors.red}Error parsing rules file: ${error}${colors.reset}`
+        )
+        process.exit(1)
+      }
+
+      const rulesErrors = validateContestRules(rules)
+      if (rulesErrors.length > 0) {
+        console.error(
+          `${colors.red}Error: Invalid rules file ${rulesPath}:${colors.reset}`
+        )
+        rulesErrors.forEach(({ path, message }) =>
+          console.error(
+            `${colors.red}  ${path || '(root)'}: ${message}${colors.reset}`
+          )
+        )
+        process.exit(1)
+      }
+
+      checkDxccNeeded(rules, options.cty)
 
-        // Validate essential rules properties
-        if (!rules.name || !rules.start || !rules.end || !rules.rules) {
-          throw new Error(
-            'Required fields missing in rules file (name, start, end, rules)'
+      let dxcc: DxccDatabase | undefined
+      if (options.cty) {
+        if (!existsSync(options.cty)) {
+          console.error(
+            `${colors.red}Error: DXCC file ${options.cty} does not exist${colors.reset}`
           )
+          process.exit(1)
         }
+        dxcc = parseCty(await readFile(options.cty, 'utf-8'))
+      }
 
-        if (
-          !rules.rules.validation ||
-          !rules.rules.scoring ||
-          !rules.rules.bonus
-        ) {
-          throw new Error(
-            'Required rules sections missing (validation, scoring, bonus)'
+      let adjudications: Adjudications | undefined
+      if (options.adjudications) {
+        if (!existsSync(options.adjudications)) {
+          console.error(
+            `${colors.red}Error: Adjudications file ${options.adjudications} does not exist${colors.reset}`
           )
+          process.exit(1)
+        }
+        try {
+          adjudications = JSON.parse(
+            await readFile(options.adjudications, 'utf-8')
+          )
+        } catch (error) {
+          console.error(
+            `${colors.red}Error parsing adjudications file: ${error}${colors.reset}`
+          )
+          process.exit(1)
+        }
+
+        const adjudicationsErrors = validateAdjudications(adjudications)
+        if (adjudicationsErrors.length > 0) {
+          console.error(
+            `${colors.red}Error: Invalid adjudications file ${options.adjudications}:${colors.reset}`
+          )
+          adjudicationsErrors.forEach(({ path, message }) =>
+            console.error(
+              `${colors.red}  ${path || '(root)'}: ${message}${colors.reset}`
+            )
+          )
+          process.exit(1)
         }
-      } catch (error) {
-        console.error(
-          `${colors.red}Error parsing rules file: ${error}${colors.reset}`
-        )
-        process.exit(1)
       }
 
       console.log(
@@ -108,47 +226,66 @@ program
         `${colors.blue}Contest period: ${formatDateTime(new Date(rules.start))} to ${formatDateTime(new Date(rules.end))}${colors.reset}`
       )
 
-      // Read all ADIF files from the input directory
-      const files = readdirSync(options.input).filter(
-        file =>
-          file.toLowerCase().endsWith('.adi') ||
-          file.toLowerCase().endsWith('.adif')
+      // Read all ADIF and Cabrillo files from the input directory
+      const files = readdirSync(options.input).filter(file =>
+        LOG_FILE_EXTENSIONS.includes(extname(file).toLowerCase())
       )
 
       if (files.length === 0) {
         console.error(
-          `${colors.red}No ADIF files found in the input directory${colors.reset}`
+          `${colors.red}No ADIF or Cabrillo files found in the input directory${colors.reset}`
         )
         process.exit(1)
       }
 
+      const cabrilloFiles = files.filter(isCabrilloFile)
       console.log(
-        `${colors.green}Found ${files.length} ADIF files${colors.reset}`
+        `${colors.green}Found ${files.length - cabrilloFiles.length} ADIF files${cabrilloFiles.length > 0 ? ` and ${cabrilloFiles.length} Cabrillo files` : ''}${colors.reset}`
       )
 
-      // Parse each ADIF file and create submissions
+      // Parse each log file and create submissions
       const submissions: Participant[] = []
       const errorFiles: string[] = []
+      // Log file of each participant, as a second log would replace the first
+      const participantFiles = new Map<string, string>()
 
       for (const file of files) {
         const filePath = join(options.input, file)
 
         try {
-          const adifData = await readFile(filePath, 'utf-8')
-
-          // Extract callsign from filename (assuming format is CALLSIGN.adi)
-          const callsign = basename(
-            file,
-            file.toLowerCase().endsWith('.adi') ? '.adi' : '.adif'
-          )
+          const logData = await readFile(filePath, 'utf-8')
 
           try {
-            const parseResult = AdifParser.parseAdi(adifData)
+            const { adif: parseResult, metadata } = parseLogFile(
+              file,
+              logData,
+              rules
+            )
 
             if (parseResult.records && parseResult.records.length > 0) {
-              submissions.push([callsign.toUpperCase(), parseResult.records])
+              const { callsign, source, warnings } = resolveStationCallsign(
+                file,
+                parseResult,
+                callsignSources
+              )
+              warnings.forEach(warning =>
+                console.warn(
+                  `${colors.yellow}Warning: ${file}: ${warning}${colors.reset}`
+                )
+              )
+
+              const otherFile = participantFiles.get(callsign)
+              if (otherFile) {
+                console.error(
+                  `${colors.red}Error: ${otherFile} and ${file} are both logs of ${callsign}${colors.reset}`
+                )
+                process.exit(1)
+              }
+              participantFiles.set(callsign, file)
+
+              submissions.push([callsign, parseResult.records, metadata])
               console.log(
-                `${colors.cyan}Parsed ${parseResult.records.length} contacts from ${file}${colors.reset}`
+                `${colors.cyan}Parsed ${parseResult.records.length} contacts from ${file} as ${callsign} (from ${source})${colors.reset}`
               )
             } else {
               console.warn(
@@ -182,7 +319,17 @@ program
 
       // Score the contest
       console.log(`${colors.magenta}Scoring contest...${colors.reset}`)
-      const scoredContest = scoreContest(submissions, rules)
+      const scoredContest = scoreContest(submissions, rules, {
+        dxcc,
+        adjudications,
+      })
+
+      // Adjudications changing nothing are most likely typos in the file
+      scoredContest.unmatchedAdjudications?.forEach(({ path, message }) =>
+        console.warn(
+          `${colors.yellow}Warning: Adjudication ${path}: ${message}${colors.reset}`
+        )
+      )
 
       // Create output directory if it doesn't exist
       const outputDir =
@@ -192,9 +339,16 @@ program
       }
 
       // Write results to CSV
-      let csv = 'Rank,Callsign,Score\n'
+      // Claimed scores are compared with the final ones, listing the
+      // contacts lost by each validation rule
+      let csv =
+        'Rank,Callsign,Score,Claimed Score,Declared Score,QSOs Lost,Points Lost,Lost By Rule\n'
       scoredContest.results.forEach(([callsign, score], index) => {
-        csv += `${index + 1},${callsign},${score}\n`
+        const claimed = scoredContest.scoringDetails[callsign]?.claimed
+        const lostByRule = Object.entries(claimed?.contactsLostByRule || {})
+          .map(([rule, count]) => `${rule}:${count}`)
+          .join(' ')
+        csv += `${index + 1},${callsign},${score},${claimed?.score ?? ''},${claimed?.declaredScore ?? ''},${claimed?.contactsLost ?? ''},${claimed?.pointsLost ?? ''},${lostByRule}\n`
       })
 
       const csvFilePath = options.output ?? join(options.input, 'results.csv')
@@ -204,12 +358,66 @@ program
         `${colors.green}Results written to ${csvFilePath}${colors.reset}`
       )
 
+      // Write one CSV per category
+      for (const [category, categoryResults] of Object.entries(
+        scoredContest.categoryResults || {}
+      )) {
+        let categoryCsv = 'Rank,Callsign,Score\n'
+        categoryResults.forEach(([callsign, score], index) => {
+          categoryCsv += `${index + 1},${callsign},${score}\n`
+        })
+
+        const categoryCsvFilePath = csvFilePath.replace(
+          /(\.csv)?$/,
+          `-${category.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.csv`
+        )
+        writeFileSync(categoryCsvFilePath, categoryCsv)
+        console.log(
+          `${colors.green}${category} results written to ${categoryCsvFilePath}${colors.reset}`
+        )
+      }
+
+      // Write the club standings, listing the members counted for each club
+      const clubResults = scoredContest.clubResults || []
+      if (clubResults.length > 0) {
+        let clubsCsv = 'Rank,Club,Score,Members\n'
+        clubResults.forEach(({ club, score, members }, index) => {
+          clubsCsv += `${index + 1},${formatCsvField(club)},${score},${members
+            .filter(member => member.counted)
+            .map(member => member.callsign)
+            .join(' ')}\n`
+        })
+
+        const clubsCsvFilePath = join(dirname(csvFilePath), 'clubs.csv')
+        writeFileSync(clubsCsvFilePath, clubsCsv)
+        console.log(
+          `${colors.green}Club results written to ${clubsCsvFilePath}${colors.reset}`
+        )
+      }
+
       const jsonFilePath = csvFilePath.replace(/\.csv$/, '.json')
       writeFileSync(jsonFilePath, JSON.stringify(scoredContest, null, 2))
       console.log(
         `${colors.green}Detailed results written to ${jsonFilePath}${colors.reset}`
       )
 
+      // Write one UBN report per participant
+      const ubnDir = join(dirname(csvFilePath), 'ubn')
+      if (!existsSync(ubnDir)) {
+        mkdirSync(ubnDir, { recursive: true })
+      }
+      for (const [callsign, report] of Object.entries(
+        getUbnReports(scoredContest)
+      )) {
+        writeFileSync(
+          join(ubnDir, getReportFileName(callsign)),
+          formatUbnReport(callsign, report)
+        )
+      }
+      console.log(
+        `${colors.green}UBN reports written to ${ubnDir}${colors.reset}`
+      )
+
       // Display results in console
       console.log('\n' + colors.bold + colors.green + 'Results:' + colors.reset)
 
@@ -225,6 +433,45 @@ program
 
       console.log(table.toString())
 
+      if (clubResults.length > 0) {
+        const clubTable = new AsciiTable3('Club Results')
+          .setHeading('Rank', 'Club', 'Score', 'Members')
+          .setAlign(3, AlignmentEnum.RIGHT)
+
+        clubResults.forEach(({ club, score, members }, index) => {
+          clubTable.addRow(
+            index + 1,
+            club,
+            score,
+            members
+              .map(
+                ({ callsign, score, counted }) =>
+                  `${callsign} (${score}${counted ? '' : ', not counted'})`
+              )
+              .join(', ')
+          )
+        })
+
+        clubTable.setStyle('unicode-single').setCellMargin(1)
+
+        console.log(clubTable.toString())
+      }
+
+      const odxResults = scoredContest.odxResults || []
+      if (odxResults.length > 0) {
+        const odxTable = new AsciiTable3('ODX')
+          .setHeading('Callsign', 'Contacted', 'Distance (km)')
+          .setAlign(3, AlignmentEnum.RIGHT)
+
+        odxResults.forEach(({ callsign, contactedCallsign, distance }) => {
+          odxTable.addRow(callsign, contactedCallsign, distance)
+        })
+
+        odxTable.setStyle('unicode-single').setCellMargin(1)
+
+        console.log(odxTable.toString())
+      }
+
       // If verbose mode is enabled, show more details
       if (options.verbose) {
         console.log(
@@ -305,7 +552,9 @@ program
               contact.band || contact.freq,
               contact.mode,
               validText,
-              contact.invalidValidationRule || '(none)',
+              contact.invalidationReason
+                ? `${contact.invalidValidationRule} (${contact.invalidationReason})`
+                : contact.invalidValidationRule || '(none)',
               contact.scoreRule || '(none)',
               score
             )
@@ -313,6 +562,41 @@ program
 
           console.log(detailsTable.toString())
 
+          // Judge decisions are listed with their notes
+          details.contacts
+            .filter(contact => contact.adjudication)
+            .forEach(contact =>
+              console.log(
+                `${colors.magenta}Adjudicated ${contact.adjudication!.valid ? 'valid' : 'invalid'}: ${contact.call} ${contact.qso_date} ${contact.time_on} (${contact.adjudication!.note})${colors.reset}`
+              )
+            )
+          details.adjustments?.forEach(({ points, note }) =>
+            console.log(
+              `${colors.magenta}Adjustment: ${points} points (${note})${colors.reset}`
+            )
+          )
+          if (details.disqualified) {
+            console.log(
+              `${colors.red}Disqualified: ${details.disqualified}${colors.reset}`
+            )
+          }
+
+          if (details.givenPenalty) {
+            console.log(
+              `${colors.red}Penalty: ${details.givenPenalty} points${colors.reset}`
+            )
+          }
+
+          if (details.multipliers && details.multipliers.length > 0) {
+            console.log(
+              `${colors.yellow}Multipliers: ${details.givenMultiplier} (${details.multipliers
+                .map(({ value, scope }) =>
+                  scope ? `${value}/${scope}` : value
+                )
+                .join(', ')})${colors.reset}`
+            )
+          }
+
           if (details.givenBonus > 0) {
             console.log(
               `${colors.yellow}Bonus Rule Applied: ${details.bonusRuleApplied || 'default'} (Bonus points: ${details.givenBonus})${colors.reset}`
@@ -326,4 +610,187 @@ program
     }
   })
 
+program
+  .command('check-log')
+  .description(
+    'Check a single ADIF or Cabrillo log before submitting it, skipping the cross-check'
+  )
+  .requiredOption('-l, --log <file>', 'ADIF or Cabrillo file to check')
+  .option(
+    '-r, --rules <file>',
+    'JSON file containing contest rules, relative to the current directory',
+    'rules.json'
+  )
+  .option(
+    '-c, --callsign-from <sources>',
+    `Comma-separated sources of the participant callsign, in order of precedence (${CALLSIGN_SOURCES.join(', ')})`,
+    CALLSIGN_SOURCES.join(',')
+  )
+  .option(
+    '--cty <file>',
+    'cty.dat or cty.csv file used to find the DXCC entity of every callsign'
+  )
+  .action(async options => {
+    const callsignSources = parseCallsignSources(options.callsignFrom)
+
+    for (const file of [options.log, options.rules, options.cty]) {
+      if (file && !existsSync(file)) {
+        console.error(
+          `${colors.red}Error: File ${file} does not exist${colors.reset}`
+        )
+        process.exit(1)
+      }
+    }
+
+    let rules: ContestRules
+    try {
+      rules = JSON.parse(await readFile(options.rules, 'utf-8'))
+    } catch (error) {
+      console.error(
+        `${colors.red}Error parsing rules file: ${error}${colors.reset}`
+      )
+      process.exit(1)
+    }
+
+    const rulesErrors = validateContestRules(rules)
+    if (rulesErrors.length > 0) {
+      console.error(
+        `${colors.red}Error: Invalid rules file ${options.rules}:${colors.reset}`
+      )
+      rulesErrors.forEach(({ path, message }) =>
+        console.error(
+          `${colors.red}  ${path || '(root)'}: ${message}${colors.reset}`
+        )
+      )
+      process.exit(1)
+    }
+
+    checkDxccNeeded(rules, options.cty)
+
+    let submission: Participant
+    try {
+      const file = basename(options.log)
+      const { adif, metadata } = parseLogFile(
+        file,
+        await readFile(options.log, 'utf-8'),
+        rules
+      )
+      const { callsign, warnings } = resolveStationCallsign(
+        file,
+        adif,
+        callsignSources
+      )
+      warnings.forEach(warning =>
+        console.warn(`${colors.yellow}Warning: ${warning}${colors.reset}`)
+      )
+      submission = [callsign, adif.records || [], metadata]
+    } catch (error) {
+      console.error(
+        `${colors.red}Error parsing ${options.log}: ${error}${colors.reset}`
+      )
+      process.exit(1)
+    }
+
+    const dxcc = options.cty
+      ? parseCty(await readFile(options.cty, 'utf-8'))
+      : undefined
+    const { callsign, claimedScore, scoringDetails, error } = checkLog(
+      submission,
+      rules,
+      { dxcc }
+    )
+    if (error) {
+      console.error(`${colors.red}Error: ${error}${colors.reset}`)
+      process.exit(1)
+    }
+
+    console.log(
+      `${colors.bold}${colors.green}Checking the ${rules.name} log of ${callsign}${colors.reset}`
+    )
+
+    const table = new AsciiTable3(`${callsign} Contacts`)
+      .setHeading('#', 'Contacted', 'Time', 'Band', 'Mode', 'Problem', 'Score')
+      .setAlign(7, AlignmentEnum.RIGHT)
+      .setStyle('unicode-single')
+
+    scoringDetails.contacts.forEach((contact, index) => {
+      table.addRow(
+        index + 1,
+        contact.call,
+        `${contact.qso_date} ${contact.time_on}`,
+        contact.band || contact.freq,
+        contact.mode,
+        contact.invalidationReason
+          ? `${contact.invalidValidationRule} (${contact.invalidationReason})`
+          : contact.invalidValidationRule || '',
+        contact.invalidValidationRule ? 0 : contact.givenScore
+      )
+    })
+
+    console.log(table.toString())
+
+    const invalidContacts = scoringDetails.contacts.filter(
+      contact => contact.invalidValidationRule
+    ).length
+    console.log(
+      `${invalidContacts > 0 ? colors.yellow : colors.green}${invalidContacts} of ${scoringDetails.contacts.length} contacts have problems${colors.reset}`
+    )
+    if (scoringDetails.multipliers && scoringDetails.multipliers.length > 0) {
+      console.log(
+        `${colors.yellow}Multipliers: ${scoringDetails.givenMultiplier}${colors.reset}`
+      )
+    }
+    console.log(
+      `${colors.bold}${colors.green}Claimed score: ${claimedScore}${colors.reset}`
+    )
+    console.log(
+      'Contacts are not cross-checked against the logs of other participants, so the final score may be lower.'
+    )
+  })
+
+program
+  .command('lint-rules')
+  .description('Check a rules file for mistakes without scoring any logs')
+  .option(
+    '-r, --rules <file>',
+    'JSON file containing contest rules, relative to the current directory',
+    'rules.json'
+  )
+  .action(async options => {
+    if (!existsSync(options.rules)) {
+      console.error(
+        `${colors.red}Error: Rules file ${options.rules} does not exist${colors.reset}`
+      )
+      process.exit(1)
+    }
+
+    let rules: unknown
+    try {
+      rules = JSON.parse(await readFile(options.rules, 'utf-8'))
+    } catch (error) {
+      console.error(
+        `${colors.red}Error parsing rules file: ${error}${colors.reset}`
+      )
+      process.exit(1)
+    }
+
+    const problems = lintContestRules(rules)
+    if (problems.length === 0) {
+      console.log(
+        `${colors.green}No problems found in ${options.rules}${colors.reset}`
+      )
+      return
+    }
+
+    console.error(
+      `${colors.red}Found ${problems.length} problems in ${options.rules}:${colors.reset}`
+    )
+    problems.forEach(({ path, message }) =>
+      console.error(
+        `${colors.red}  ${path || '(root)'}: ${message}${colors.reset}`
+      )
+    )
+    process.exit(1)
+  })
+
 program.parse()
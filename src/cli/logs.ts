@@ -0,0 +1,143 @@
+import { basename, extname } from 'path'
+import { AdifParser, type SimpleAdif } from 'adif-parser-ts'
+import type { Callsign, ContestRules, ParticipantMetadata } from 'lib/types'
+import type { CallsignSource, ParsedLogFile, ResolvedCallsign } from 'cli/types'
+import { parseCabrillo } from 'lib/cabrillo'
+
+const ADIF_EXTENSIONS = ['.adi', '.adif']
+const CABRILLO_EXTENSIONS = ['.log', '.cbr']
+
+export const LOG_FILE_EXTENSIONS = ADIF_EXTENSIONS.concat(CABRILLO_EXTENSIONS)
+
+export const CALLSIGN_SOURCES: CallsignSource[] = [
+  'station_callsign',
+  'operator',
+  'header',
+  'filename',
+]
+
+// ADIF headers can declare the entry categories as CATEGORY_<NAME> fields
+// and the club as a CLUB field, mirroring the fields of Cabrillo headers
+const getAdifMetadata = (
+  header: SimpleAdif['header']
+): ParticipantMetadata | undefined => {
+  const club = String(header?.club || '').trim()
+  const categories = Object.fromEntries(
+    Object.entries(header || {})
+      .filter(([field]) => /^category[_-]/i.test(field))
+      .map(([field, value]) => [
+        field.slice('category_'.length).toUpperCase(),
+        String(value).trim().toUpperCase(),
+      ])
+  )
+
+  if (Object.keys(categories).length === 0 && !club) return undefined
+
+  return { categories, ...(club && { club }) }
+}
+
+export const isCabrilloFile = (file: string): boolean =>
+  CABRILLO_EXTENSIONS.includes(extname(file).toLowerCase())
+
+// Parse an ADIF or Cabrillo log, depending on its extension. The CALLSIGN
+// header of Cabrillo logs is exposed as the station callsign of the header.
+export const parseLogFile = (
+  file: string,
+  contents: string,
+  rules?: ContestRules
+): ParsedLogFile => {
+  if (!isCabrilloFile(file)) {
+    const adif = AdifParser.parseAdi(contents)
+    return { adif, metadata: getAdifMetadata(adif.header) }
+  }
+
+  const { records, metadata } = parseCabrillo(contents, rules)
+  return {
+    adif: {
+      header: metadata.callsign ? { station_callsign: metadata.callsign } : {},
+      records,
+    },
+    metadata,
+  }
+}
+
+// Alphanumeric words of a file name, e.g. OA4EFJ and FINAL for oa4efj_final.adi
+const getFileNameTokens = (file: string): string[] =>
+  basename(file, extname(file))
+    .toUpperCase()
+    .split(/[^A-Z0-9]+/)
+    .filter(token => token !== '')
+
+// Distinct values of a record field, most frequent first
+const getFieldValues = (
+  records: NonNullable<SimpleAdif['records']>,
+  field: string
+): Callsign[] => {
+  const counts = records.reduce((counts, record) => {
+    const value = String(record[field] || '')
+      .trim()
+      .toUpperCase()
+    return value ? counts.set(value, (counts.get(value) || 0) + 1) : counts
+  }, new Map<Callsign, number>())
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([value]) => value)
+}
+
+const getCallsignFromSource = (
+  source: CallsignSource,
+  file: string,
+  adif: SimpleAdif
+): Callsign => {
+  switch (source) {
+    case 'station_callsign':
+    case 'operator':
+      return getFieldValues(adif.records || [], source)[0] || ''
+    case 'header':
+      return String(
+        adif.header?.station_callsign || adif.header?.operator || ''
+      )
+        .trim()
+        .toUpperCase()
+    case 'filename':
+      return getFileNameTokens(file)[0] || ''
+  }
+}
+
+// Resolve the participant callsign of a log from the first source, in order of
+// precedence, that provides one. The file name is always the last resort.
+export const resolveStationCallsign = (
+  file: string,
+  adif: SimpleAdif,
+  sources: CallsignSource[] = CALLSIGN_SOURCES
+): ResolvedCallsign => {
+  const [callsign, source] = sources
+    .concat('filename')
+    .map(source => [getCallsignFromSource(source, file, adif), source] as const)
+    .find(([callsign]) => callsign !== '') || ['', 'filename' as const]
+
+  const warnings: string[] = []
+
+  const stationCallsigns = getFieldValues(
+    adif.records || [],
+    'station_callsign'
+  )
+  if (stationCallsigns.length > 1) {
+    warnings.push(
+      `Log mixes several station callsigns: ${stationCallsigns.join(', ')}`
+    )
+  }
+
+  const fileNameTokens = getFileNameTokens(file)
+  if (
+    source !== 'filename' &&
+    !callsign.split('/').some(part => fileNameTokens.includes(part))
+  ) {
+    warnings.push(
+      `File name ${basename(file)} does not match the log callsign ${callsign}`
+    )
+  }
+
+  return { callsign, source, warnings }
+}
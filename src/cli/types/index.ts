@@ -1,4 +1,20 @@
-// No CLI-specific types yet, but this file will hold them
-// when we need to add CLI options, configuration, or output formats
+import type { SimpleAdif } from 'adif-parser-ts'
+import type { Callsign, ParticipantMetadata } from '../../lib/types'
 
-export { }  // Ensures this is treated as a module
\ No newline at end of file
+// Where the participant callsign of a log file can be read from
+export type CallsignSource =
+  | 'station_callsign'
+  | 'operator'
+  | 'header'
+  | 'filename'
+
+export interface ResolvedCallsign {
+  callsign: Callsign
+  source: CallsignSource
+  warnings: string[]
+}
+
+export interface ParsedLogFile {
+  adif: SimpleAdif
+  metadata?: ParticipantMetadata
+}
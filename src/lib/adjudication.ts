@@ -0,0 +1,112 @@
+import type {
+  Adjudications,
+  Callsign,
+  Contact,
+  ContactAdjudication,
+  ParticipantScoringDetail,
+  RulesError,
+  ScoringResult,
+} from 'types'
+import { getDateTimeFromContact, getKeyPath } from 'utils'
+
+const isSameTime = (logged: string, adjudicated: string) => {
+  const length = Math.min(logged.length, adjudicated.length)
+  return length >= 4 && logged.slice(0, length) === adjudicated.slice(0, length)
+}
+
+const isSameValue = (logged: unknown, adjudicated?: string) =>
+  !adjudicated ||
+  String(logged || '').toUpperCase() === adjudicated.toUpperCase()
+
+// Find the adjudication of a contact of a log by its QSO identity: the
+// contacted station, date and time to the minute, and the band and mode when
+// given
+export const findContactAdjudication = (
+  callsign: Callsign,
+  contact: Contact,
+  adjudications?: Adjudications
+): ContactAdjudication | undefined => {
+  const { date, time } = getDateTimeFromContact(contact)
+
+  return adjudications?.contacts?.[callsign]?.find(
+    adjudication =>
+      adjudication.call === String(contact.call || '') &&
+      adjudication.date === date &&
+      isSameTime(time, adjudication.time) &&
+      isSameValue(contact.band, adjudication.band) &&
+      isSameValue(contact.mode, adjudication.mode)
+  )
+}
+
+// Apply the point adjustments to the final scores and take the disqualified
+// participants out of the results
+export const applyAdjudications = (
+  results: ScoringResult[],
+  scoringDetails: Record<Callsign, Partial<ParticipantScoringDetail>>,
+  adjudications?: Adjudications
+): ScoringResult[] => {
+  if (!adjudications) return results
+
+  for (const [callsign, reason] of Object.entries(
+    adjudications.disqualified || {}
+  )) {
+    if (scoringDetails[callsign]) scoringDetails[callsign].disqualified = reason
+  }
+  for (const [callsign, adjustments] of Object.entries(
+    adjudications.adjustments || {}
+  )) {
+    if (scoringDetails[callsign])
+      scoringDetails[callsign].adjustments = adjustments
+  }
+
+  return results
+    .filter(([callsign]) => !adjudications.disqualified?.[callsign])
+    .map(([callsign, score]) => [
+      callsign,
+      (adjudications.adjustments?.[callsign] || []).reduce(
+        (total, { points }) => total + points,
+        score
+      ),
+    ])
+}
+
+// Adjudications that changed nothing: contacts matching no contact of the log
+// and callsigns with no log, found at their JSON path in the file
+export const getUnmatchedAdjudications = (
+  scoringDetails: Record<Callsign, Partial<ParticipantScoringDetail>>,
+  adjudications: Adjudications
+): RulesError[] => {
+  const notParticipant = (section: string, callsign: Callsign) => ({
+    path: getKeyPath(section, callsign),
+    message: `${callsign} has no log in the contest`,
+  })
+
+  return [
+    ...Object.entries(adjudications.contacts || {}).flatMap(
+      ([callsign, contacts]) => {
+        const details = scoringDetails[callsign]
+        if (!details) return [notParticipant('contacts', callsign)]
+
+        return contacts.flatMap((adjudication, index) =>
+          (details.contacts || []).some(
+            contact =>
+              findContactAdjudication(callsign, contact, adjudications) ===
+              adjudication
+          )
+            ? []
+            : [
+                {
+                  path: `${getKeyPath('contacts', callsign)}[${index}]`,
+                  message: `Matches no contact in the log of ${callsign}`,
+                },
+              ]
+        )
+      }
+    ),
+    ...(['disqualified', 'adjustments'] as const).flatMap(section =>
+      Object.keys(adjudications[section] || {})
+        .filter(callsign => !scoringDetails[callsign])
+        .map(callsign => notParticipant(section, callsign))
+    ),
+  ]
+}
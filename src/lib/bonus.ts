@@ -8,27 +8,42 @@ import type {
   ParticipantScoringDetail,
 } from './types'
 import { bonusers } from './rules/bonusers'
+import { getParticipantRulesContext } from './precalculate'
+import { getCategoryRules } from './category'
 
 export const applyBonusRules = (
   scoredContacts: Map<Callsign, ValidContact[]>,
   rules: ContestRules,
   rulesContext: RulesContext,
-  scoringDetails: Record<string, Partial<ParticipantScoringDetail>>
+  scoringDetails: Record<string, Partial<ParticipantScoringDetail>>,
+  penalties: Map<Callsign, number> = new Map(),
+  multipliers: Map<Callsign, number> = new Map()
 ): ScoringResult[] => {
-  const context: ScoringContext = {
-    validContacts: scoredContacts,
-    timeRanges: rulesContext.timeRanges,
-  }
-
   return Array.from(scoredContacts.entries()).map(([callsign, contacts]) => {
-    const baseScore = contacts.reduce((sum, contact) => sum + contact.score, 0)
+    const participantRulesContext = getParticipantRulesContext(
+      rulesContext,
+      callsign
+    )
+    const context: ScoringContext = {
+      validContacts: scoredContacts,
+      timeRanges: participantRulesContext.timeRanges,
+    }
+
+    const baseScore =
+      contacts.reduce(
+        (sum, contact) => sum + contact.score,
+        penalties.get(callsign) || 0
+      ) * (multipliers.get(callsign) ?? 1)
 
     if (callsign in scoringDetails) {
       scoringDetails[callsign]!.bonusRuleApplied = null
       scoringDetails[callsign]!.givenBonus = 0
     }
 
-    const finalScore = rules.rules.bonus.reduce((currentScore, rule) => {
+    const category = rulesContext.categories?.get(callsign)
+    const { bonus } = (category ? getCategoryRules(rules, category) : rules)
+      .rules
+    const finalScore = bonus.reduce((currentScore, rule) => {
       const [ruleName, params] = Array.isArray(rule) ? rule : [rule, undefined]
 
       const score = bonusers[ruleName](currentScore, context, params)
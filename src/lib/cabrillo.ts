@@ -0,0 +1,193 @@
+import type { Contact, ContestRules, ParticipantMetadata } from 'types'
+import { extractRule } from 'utils'
+
+export interface CabrilloLog {
+  records: Contact[]
+  metadata: ParticipantMetadata
+}
+
+const CABRILLO_MODES: Record<string, string> = {
+  PH: 'SSB',
+  RY: 'RTTY',
+}
+
+// Bands given instead of a frequency above 30 MHz, along with a frequency in
+// MHz within them for the bands validator
+const CABRILLO_BANDS: Record<string, { freq: string; band: string }> = {
+  '50': { freq: '50.000', band: '6m' },
+  '70': { freq: '70.000', band: '4m' },
+  '144': { freq: '144.000', band: '2m' },
+  '222': { freq: '222.000', band: '1.25m' },
+  '432': { freq: '432.000', band: '70cm' },
+  '902': { freq: '902.000', band: '33cm' },
+  '1.2G': { freq: '1240.000', band: '23cm' },
+  '2.3G': { freq: '2300.000', band: '13cm' },
+  '3.4G': { freq: '3400.000', band: '9cm' },
+  '5.7G': { freq: '5650.000', band: '6cm' },
+  '10G': { freq: '10000.000', band: '3cm' },
+  '24G': { freq: '24000.000', band: '1.25cm' },
+  '47G': { freq: '47000.000', band: '6mm' },
+  '75G': { freq: '75500.000', band: '4mm' },
+  '122G': { freq: '122250.000', band: '2.5mm' },
+  '134G': { freq: '134000.000', band: '2mm' },
+  '241G': { freq: '241000.000', band: '1mm' },
+}
+
+// Bands of frequencies given in kHz
+const BANDS: Array<{ start: number; end: number; name: string }> = [
+  { start: 1800, end: 2000, name: '160m' },
+  { start: 3500, end: 4000, name: '80m' },
+  { start: 5330, end: 5410, name: '60m' },
+  { start: 7000, end: 7300, name: '40m' },
+  { start: 10100, end: 10150, name: '30m' },
+  { start: 14000, end: 14350, name: '20m' },
+  { start: 18068, end: 18168, name: '17m' },
+  { start: 21000, end: 21450, name: '15m' },
+  { start: 24890, end: 24990, name: '12m' },
+  { start: 28000, end: 29700, name: '10m' },
+  { start: 50000, end: 54000, name: '6m' },
+  { start: 70000, end: 71000, name: '4m' },
+  { start: 144000, end: 148000, name: '2m' },
+  { start: 222000, end: 225000, name: '1.25m' },
+  { start: 420000, end: 450000, name: '70cm' },
+  { start: 902000, end: 928000, name: '33cm' },
+  { start: 1240000, end: 1300000, name: '23cm' },
+]
+
+const RST_PATTERN = /^[1-5][1-9][1-9]?$/
+
+// Whether the first field of an exchange is a signal report. Serials like 559
+// look like one, so it is only taken as such when the rules read the signal
+// report apart from the exchange, or expect fewer fields than logged.
+const hasLeadingRst = (fields: string[], rules?: ContestRules) => {
+  if (fields.length < 2 || !RST_PATTERN.test(fields[0]!)) return false
+
+  const exchangeFields = rules?.exchangeFields || []
+  if (exchangeFields.length > 0) {
+    const sources = exchangeFields.map(field => field.source.toUpperCase())
+    const expectedLength = Math.max(
+      0,
+      ...exchangeFields
+        .filter(field => field.source.toUpperCase() === 'SRX_STRING')
+        .map(field => (field.index ?? 0) + 1)
+    )
+    return sources.includes('RST_RCVD') || fields.length > expectedLength
+  }
+
+  const exchangeRule = extractRule(rules?.rules.validation || [], 'exchange')
+  if (!Array.isArray(exchangeRule)) return false
+
+  const pattern = new RegExp(String(exchangeRule[1]))
+  return (
+    !pattern.test(fields.join(' ')) && pattern.test(fields.slice(1).join(' '))
+  )
+}
+
+// Exchanges starting with a signal report get it moved to the RST fields
+const splitExchange = (fields: string[], rules?: ContestRules) =>
+  hasLeadingRst(fields, rules)
+    ? { rst: fields[0]!, exchange: fields.slice(1).join(' ') }
+    : { rst: '', exchange: fields.join(' ') }
+
+const getFrequency = (value: string): { freq: string; band: string } => {
+  const kHz = Number(value)
+
+  if (!isNaN(kHz) && kHz >= BANDS[0]!.start) {
+    return {
+      freq: (kHz / 1000).toFixed(3),
+      band:
+        BANDS.find(band => kHz >= band.start && kHz <= band.end)?.name || '',
+    }
+  }
+
+  return CABRILLO_BANDS[value.toUpperCase()] || { freq: '', band: '' }
+}
+
+// QSO: freq mode date time mycall sent-exchange call received-exchange [t]
+// Sent and received exchanges have the same number of fields, an extra last
+// field is the transmitter id of multi-transmitter entries
+const parseQsoLine = (
+  value: string,
+  lineNumber: number,
+  rules?: ContestRules
+): Contact => {
+  const fields = value.trim().split(/\s+/)
+  const [frequency, mode, date, time, ...stations] = fields
+
+  if (!frequency || !mode || !date || !time || stations.length < 2) {
+    throw new Error(`Invalid QSO line ${lineNumber}: ${value.trim()}`)
+  }
+
+  const exchangeLength = Math.floor((stations.length - 2) / 2)
+  const [stationCallsign, ...sentAndReceived] = stations
+  const sent = splitExchange(sentAndReceived.slice(0, exchangeLength), rules)
+  const call = sentAndReceived[exchangeLength]!
+  const received = splitExchange(
+    sentAndReceived.slice(exchangeLength + 1, 2 * exchangeLength + 1),
+    rules
+  )
+
+  return {
+    call,
+    station_callsign: stationCallsign!,
+    qso_date: date.replace(/-/g, ''),
+    time_on: `${time.padStart(4, '0')}00`,
+    ...getFrequency(frequency),
+    mode: CABRILLO_MODES[mode.toUpperCase()] || mode.toUpperCase(),
+    rst_sent: sent.rst,
+    rst_rcvd: received.rst,
+    stx_string: sent.exchange,
+    srx_string: received.exchange,
+  }
+}
+
+// Parse a Cabrillo 3.0 log into ADIF-like records and the participant metadata
+// declared in its header. The contest rules tell whether exchanges start with
+// a signal report.
+export const parseCabrillo = (
+  text: string,
+  rules?: ContestRules
+): CabrilloLog =>
+  text.split(/\r?\n/).reduce<CabrilloLog>(
+    ({ records, metadata }, line, index) => {
+      const separator = line.indexOf(':')
+      if (separator === -1) return { records, metadata }
+
+      const tag = line.slice(0, separator).trim().toUpperCase()
+      const value = line.slice(separator + 1).trim()
+
+      if (tag === 'QSO') {
+        records.push(parseQsoLine(value, index + 1, rules))
+        return { records, metadata }
+      }
+
+      // Ignored QSOs and log delimiters are not part of the metadata
+      if (['X-QSO', 'START-OF-LOG', 'END-OF-LOG'].includes(tag)) {
+        return { records, metadata }
+      }
+
+      const fields = metadata.fields || {}
+      const updatedMetadata: ParticipantMetadata = {
+        ...metadata,
+        fields: {
+          ...fields,
+          [tag]: fields[tag] !== undefined ? `${fields[tag]}\n${value}` : value,
+        },
+      }
+
+      if (tag === 'CALLSIGN') updatedMetadata.callsign = value.toUpperCase()
+      if (tag === 'CLUB') updatedMetadata.club = value
+      if (tag === 'SOAPBOX') {
+        updatedMetadata.soapbox = (metadata.soapbox || []).concat(value)
+      }
+      if (tag.startsWith('CATEGORY-')) {
+        updatedMetadata.categories = {
+          ...metadata.categories,
+          [tag.slice('CATEGORY-'.length)]: value.toUpperCase(),
+        }
+      }
+
+      return { records, metadata: updatedMetadata }
+    },
+    { records: [], metadata: {} }
+  )
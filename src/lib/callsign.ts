@@ -0,0 +1,76 @@
+import type { Callsign, CallsignNormalizationOptions } from 'types'
+
+// Suffixes that identify the operating conditions rather than a location,
+// they never count as prefixes
+const OPERATING_SUFFIXES = new Set([
+  'P',
+  'M',
+  'MM',
+  'AM',
+  'A',
+  'E',
+  'J',
+  'B',
+  'QRP',
+  'QRPP',
+])
+
+export const splitCallsign = (callsign: Callsign): string[] =>
+  callsign
+    .trim()
+    .toUpperCase()
+    .split('/')
+    .filter(part => part !== '' && !OPERATING_SUFFIXES.has(part))
+
+// Letters and numbers up to the last number of a callsign or designator.
+// Those without numbers get a zero after their first two letters.
+const getPrefix = (part: string): string => {
+  const match = part.match(/^(.*\d)[A-Z]*$/)
+  return match ? match[1]! : `${part.slice(0, 2)}0`
+}
+
+// Prefix of a callsign following the CQ WPX rules:
+// - OA4EFJ is OA4, 9A2AA is 9A2 and XEFTJW is XE0
+// - Portable designators become the prefix: OA4/K1ABC and K1ABC/OA4 are OA4,
+//   PA/K1ABC is PA0
+// - A single number designator replaces the call area: K1ABC/4 is K4
+// - Operating suffixes such as /P, /M or /QRP are ignored
+export const getWpxPrefix = (callsign: Callsign): string => {
+  const parts = splitCallsign(callsign)
+  const [first, second] = parts
+
+  if (!first) return ''
+  if (!second) return getPrefix(first)
+
+  if (/^\d$/.test(second)) return getPrefix(first).replace(/\d+$/, second)
+
+  // The designator is the shortest part, usually written first
+  return getPrefix(second.length < first.length ? second : first)
+}
+
+// Uppercase and trim a callsign, optionally dropping the portable designators
+// written before or after the home callsign (the longest part)
+export const normalizeCallsign = (
+  callsign: Callsign,
+  options: CallsignNormalizationOptions = {}
+): Callsign => {
+  const parts = callsign
+    .trim()
+    .toUpperCase()
+    .split('/')
+    .filter(part => part !== '')
+
+  const homeIndex = parts.reduce(
+    (longest, part, index) =>
+      part.length > parts[longest]!.length ? index : longest,
+    0
+  )
+
+  return parts
+    .filter(
+      (_, index) =>
+        (index >= homeIndex || !options.stripPortablePrefixes) &&
+        (index <= homeIndex || !options.stripPortableSuffixes)
+    )
+    .join('/')
+}
@@ -0,0 +1,89 @@
+import type {
+  Callsign,
+  CategoryDefinition,
+  ContestRules,
+  Participant,
+  ParticipantMetadata,
+  ScoringResult,
+} from 'types'
+
+const matchesHeader = (
+  { match }: CategoryDefinition,
+  metadata: ParticipantMetadata | undefined
+) =>
+  !!match &&
+  Object.entries(match).every(
+    ([name, value]) =>
+      metadata?.categories?.[name.toUpperCase()] === value.toUpperCase()
+  )
+
+// Assign each participant to a single category: the one listing it in the
+// rules file, else the first one whose header match it fulfills
+export const assignCategories = (
+  submissions: Participant[],
+  rules: ContestRules
+): Map<Callsign, string> => {
+  const categories = Object.entries(rules.categories || {})
+
+  return submissions.reduce((assigned, [callsign, _, metadata]) => {
+    const category =
+      categories.find(([_, definition]) =>
+        definition.participants?.includes(callsign)
+      ) ||
+      categories.find(([_, definition]) => matchesHeader(definition, metadata))
+
+    return category ? assigned.set(callsign, category[0]) : assigned
+  }, new Map<Callsign, string>())
+}
+
+// Split the ranked results by category, keeping their order
+export const getCategoryResults = (
+  results: ScoringResult[],
+  categories: Map<Callsign, string>,
+  rules: ContestRules
+): Record<string, ScoringResult[]> =>
+  Object.fromEntries(
+    Object.keys(rules.categories || {}).map(category => [
+      category,
+      results.filter(([callsign]) => categories.get(callsign) === category),
+    ])
+  )
+
+type RuleConfig = string | [string, unknown]
+
+const getRuleName = (rule: RuleConfig) =>
+  typeof rule === 'string' ? rule : rule[0]
+
+const mergeRules = <T extends RuleConfig>(rules: T[], overrides: T[] = []) =>
+  rules
+    .map(
+      rule =>
+        overrides.find(
+          override => getRuleName(override) === getRuleName(rule)
+        ) ?? rule
+    )
+    .concat(
+      overrides.filter(
+        override =>
+          !rules.some(rule => getRuleName(rule) === getRuleName(override))
+      )
+    )
+
+// Contest rules with the overrides of a category applied
+export const getCategoryRules = (
+  rules: ContestRules,
+  category: string
+): ContestRules => {
+  const overrides = rules.categories?.[category]?.rules
+  if (!overrides) return rules
+
+  return {
+    ...rules,
+    rules: {
+      ...rules.rules,
+      validation: mergeRules(rules.rules.validation, overrides.validation),
+      scoring: mergeRules(rules.rules.scoring, overrides.scoring),
+      bonus: mergeRules(rules.rules.bonus, overrides.bonus),
+    },
+  }
+}
@@ -0,0 +1,123 @@
+import type {
+  Callsign,
+  ClaimedScoreDetail,
+  ContactScoringDetail,
+  ContestRules,
+  DxccDatabase,
+  InvalidationRule,
+  Participant,
+  ParticipantMetadata,
+  RulesContext,
+} from 'types'
+import { validateContacts } from 'lib/validator'
+import { scoreContacts } from 'lib/scorer'
+import { applyPenaltyRules } from 'lib/penalty'
+import { applyMultiplierRules } from 'lib/multiplier'
+import { applyBonusRules } from 'lib/bonus'
+import { getRulesContext } from 'lib/precalculate'
+import { getCategoryRules } from 'lib/category'
+import { withoutRules } from 'utils'
+
+// Score of every log as if all of its contacts were valid. Scoring rules
+// needing the logs of the other participants are skipped.
+export const getClaimedScores = (
+  submissions: Participant[],
+  rules: ContestRules,
+  categories: Map<Callsign, string>,
+  dxcc?: DxccDatabase
+): Map<Callsign, number> => {
+  const claimedRules: ContestRules = {
+    ...rules,
+    categories:
+      rules.categories &&
+      Object.fromEntries(
+        Object.entries(rules.categories).map(([name, category]) => [
+          name,
+          {
+            ...category,
+            rules: category.rules && {
+              ...category.rules,
+              validation: [],
+              scoring:
+                category.rules.scoring &&
+                withoutRules(category.rules.scoring, ['minimumContacts']),
+            },
+          },
+        ])
+      ),
+    rules: {
+      ...rules.rules,
+      validation: [],
+      scoring: withoutRules(rules.rules.scoring, ['minimumContacts']),
+    },
+  }
+  // Time ranges and bands come from the contest rules, which are only stripped
+  // of the rules invalidating contacts
+  const contestContext = getRulesContext(rules, categories)
+  const rulesContext: RulesContext = {
+    ...contestContext,
+    contestRules: claimedRules,
+    categoryRulesContexts: Object.fromEntries(
+      Object.entries(contestContext.categoryRulesContexts || {}).map(
+        ([category, context]) => [
+          category,
+          {
+            ...context,
+            contestRules: getCategoryRules(claimedRules, category),
+          },
+        ]
+      )
+    ),
+    dxcc,
+  }
+
+  const { validContacts, scoringDetails, appearanceCounts } = validateContacts(
+    submissions,
+    rulesContext
+  )
+  const scoredContacts = scoreContacts(
+    validContacts,
+    rulesContext,
+    scoringDetails,
+    appearanceCounts
+  )
+
+  return new Map(
+    applyBonusRules(
+      scoredContacts,
+      claimedRules,
+      rulesContext,
+      scoringDetails,
+      applyPenaltyRules(scoredContacts, claimedRules, scoringDetails),
+      applyMultiplierRules(scoredContacts, claimedRules, scoringDetails)
+    )
+  )
+}
+
+// Compare the claimed score of a log with its final one, counting the
+// contacts lost by the validation rule that invalidated them
+export const getClaimedScoreDetail = (
+  claimedScore: number,
+  finalScore: number,
+  contacts: ContactScoringDetail[],
+  metadata?: ParticipantMetadata
+): ClaimedScoreDetail => {
+  const lostContacts = contacts.filter(contact => contact.invalidValidationRule)
+  const declaredScore = Number(
+    metadata?.fields?.['CLAIMED-SCORE']?.replace(/,/g, '') || NaN
+  )
+
+  return {
+    score: claimedScore,
+    ...(!isNaN(declaredScore) && { declaredScore }),
+    contactsLost: lostContacts.length,
+    pointsLost: claimedScore - finalScore,
+    contactsLostByRule: lostContacts.reduce(
+      (counts, { invalidValidationRule }) => ({
+        ...counts,
+        [invalidValidationRule!]: (counts[invalidValidationRule!] || 0) + 1,
+      }),
+      {} as Partial<Record<InvalidationRule, number>>
+    ),
+  }
+}
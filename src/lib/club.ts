@@ -0,0 +1,72 @@
+import type {
+  Callsign,
+  ClubResult,
+  ContestRules,
+  Participant,
+  ScoringResult,
+} from 'types'
+
+// Club names are compared ignoring case and repeated spaces
+const getClubKey = (club: string) =>
+  club.trim().replace(/\s+/g, ' ').toUpperCase()
+
+// Assign each participant to a club: the one listing it in the rules file,
+// else the one declared in its log header. Header names are spelled as in the
+// rules file, or else as in the first log declaring them.
+export const assignClubs = (
+  submissions: Participant[],
+  rules: ContestRules
+): Map<Callsign, string> => {
+  const clubs = Object.entries(rules.clubs?.members || {})
+  const clubNames = new Map(clubs.map(([club]) => [getClubKey(club), club]))
+
+  return submissions.reduce((assigned, [callsign, _, metadata]) => {
+    const headerClub = metadata?.club?.trim()
+    if (headerClub && !clubNames.has(getClubKey(headerClub)))
+      clubNames.set(getClubKey(headerClub), headerClub)
+
+    const club =
+      clubs.find(([_, members]) => members.includes(callsign))?.[0] ||
+      (headerClub && clubNames.get(getClubKey(headerClub)))
+
+    return club ? assigned.set(callsign, club) : assigned
+  }, new Map<Callsign, string>())
+}
+
+// Sum the scores of the members of every club, counting only the best
+// topMembers of them when set, and rank the clubs by that sum
+export const getClubResults = (
+  results: ScoringResult[],
+  clubs: Map<Callsign, string>,
+  rules: ContestRules
+): ClubResult[] => {
+  const topMembers = rules.clubs?.topMembers ?? Infinity
+
+  const membersByClub = results.reduce((grouped, result) => {
+    const club = clubs.get(result[0])
+    return club
+      ? grouped.set(club, (grouped.get(club) || []).concat([result]))
+      : grouped
+  }, new Map<string, ScoringResult[]>())
+
+  return Array.from(membersByClub.entries())
+    .map(([club, members]) => {
+      const clubMembers = members
+        .sort((a, b) => b[1] - a[1])
+        .map(([callsign, score], index) => ({
+          callsign,
+          score,
+          counted: index < topMembers,
+        }))
+
+      return {
+        club,
+        score: clubMembers.reduce(
+          (sum, member) => sum + (member.counted ? member.score : 0),
+          0
+        ),
+        members: clubMembers,
+      }
+    })
+    .sort((a, b) => b.score - a.score || a.club.localeCompare(b.club))
+}
@@ -0,0 +1,126 @@
+import type { Callsign, DxccDatabase, DxccEntity } from 'types'
+import { splitCallsign } from 'lib/callsign'
+
+// Add the prefixes and exact callsigns of an entity to the database. Each of
+// them can override the zones or continent of the entity, as in =OA4X(12)[16]
+// or OA0{AN}, and carry latitude/longitude or time zone overrides, which are
+// ignored.
+const addAliases = (
+  database: DxccDatabase,
+  entity: DxccEntity,
+  aliases: string[]
+) => {
+  for (const alias of aliases) {
+    const name = alias.match(/^=?([A-Z0-9/]+)/)?.[1]
+    if (!name) continue
+
+    const cqZone = alias.match(/\((\d+)\)/)?.[1]
+    const ituZone = alias.match(/\[(\d+)\]/)?.[1]
+    const continent = alias.match(/\{([A-Z]{2})\}/)?.[1]
+
+    const aliasEntity =
+      cqZone || ituZone || continent
+        ? {
+            ...entity,
+            cqZone: cqZone ? Number(cqZone) : entity.cqZone,
+            ituZone: ituZone ? Number(ituZone) : entity.ituZone,
+            continent: continent ?? entity.continent,
+          }
+        : entity
+
+    if (alias.startsWith('=')) database.calls.set(name, aliasEntity)
+    else database.prefixes.set(name, aliasEntity)
+  }
+}
+
+// Entries of the cty.dat format, one per entity:
+// Peru:  10:  12:  SA:  -10.00:  76.00:  5.0:  OA:
+//     4T,OA,OB,OC;
+const parseCtyDat = (contents: string, database: DxccDatabase) => {
+  for (const entry of contents.split(';')) {
+    const fields = entry.split(':').map(field => field.trim())
+    if (fields.length < 9) continue
+
+    const [name, cqZone, ituZone, continent, , , , prefix, aliases] = fields
+    const entity: DxccEntity = {
+      name: name!,
+      prefix: prefix!.replace(/^\*/, ''),
+      continent: continent!,
+      cqZone: Number(cqZone),
+      ituZone: Number(ituZone),
+    }
+
+    addAliases(
+      database,
+      entity,
+      aliases!.split(',').map(alias => alias.trim().toUpperCase())
+    )
+  }
+}
+
+// Lines of the cty.csv format, one per entity:
+// OA,Peru,136,SA,10,12,-10.00,76.00,5.0,4T OA OB OC;
+const parseCtyCsv = (contents: string, database: DxccDatabase) => {
+  for (const line of contents.split(/\r?\n/)) {
+    const fields = line.split(',').map(field => field.trim())
+    if (fields.length < 10) continue
+
+    const [prefix, name, , continent, cqZone, ituZone, , , , aliases] = fields
+    const entity: DxccEntity = {
+      name: name!,
+      prefix: prefix!.replace(/^\*/, ''),
+      continent: continent!,
+      cqZone: Number(cqZone),
+      ituZone: Number(ituZone),
+    }
+
+    addAliases(
+      database,
+      entity,
+      aliases!.replace(/;$/, '').toUpperCase().split(/\s+/)
+    )
+  }
+}
+
+// Parse the contents of a cty.dat or cty.csv (BigCTY) file
+export const parseCty = (contents: string): DxccDatabase => {
+  const database: DxccDatabase = { prefixes: new Map(), calls: new Map() }
+  const firstLine = contents.trim().split(/\r?\n/)[0] || ''
+
+  if (firstLine.includes(':')) parseCtyDat(contents, database)
+  else parseCtyCsv(contents, database)
+
+  return database
+}
+
+// Entity of a callsign: the one listing it as an exact callsign, else the
+// one with the longest prefix matching it. Portable designators other than a
+// single number are where the station operates from: EA8/OA4T is looked up
+// as EA8, OA4T/7 and OA4T/P as OA4T.
+export const getDxccEntity = (
+  callsign: Callsign,
+  database: DxccDatabase
+): DxccEntity | undefined => {
+  const parts = splitCallsign(callsign)
+  const [first, second] = parts
+  if (!first) return undefined
+
+  const exact =
+    database.calls.get(callsign.trim().toUpperCase()) ||
+    database.calls.get(parts.join('/'))
+  if (exact) return exact
+
+  const lookup =
+    !second || /^\d$/.test(second)
+      ? first
+      : second.length < first.length
+        ? second
+        : first
+
+  for (let length = lookup.length; length > 0; length--) {
+    const entity = database.prefixes.get(lookup.slice(0, length))
+    if (entity) return entity
+  }
+
+  return undefined
+}
@@ -0,0 +1,87 @@
+import type { Contact, ExchangeField } from 'types'
+import { getEditDistance, parseLocator } from 'utils'
+
+// ADIF fields holding the sent counterpart of a received field, the others
+// being prefixed by MY_, as in STATE and MY_STATE
+const SENT_SOURCES: Record<string, string> = {
+  SRX: 'STX',
+  SRX_STRING: 'STX_STRING',
+  RST_RCVD: 'RST_SENT',
+  CQZ: 'MY_CQ_ZONE',
+  ITUZ: 'MY_ITU_ZONE',
+}
+
+const RST = /^[1-5][1-9][1-9]?$/
+
+const readSource = (
+  contact: Contact,
+  source: string,
+  index: number | undefined
+): string => {
+  const value = String(contact[source.toLowerCase()] ?? '')
+    .trim()
+    .toUpperCase()
+  return index === undefined ? value : value.split(/\s+/)[index] || ''
+}
+
+// Sent and received values of the exchange fields of a contact
+export const getExchangeFields = (
+  contact: Contact,
+  fields: ExchangeField[]
+): Record<string, { sent: string; received: string }> =>
+  Object.fromEntries(
+    fields.map(field => {
+      const source = field.source.toUpperCase()
+      const sentSource =
+        field.sentSource?.toUpperCase() ||
+        SENT_SOURCES[source] ||
+        `MY_${source}`
+
+      return [
+        field.name,
+        {
+          sent: readSource(contact, sentSource, field.index),
+          received: readSource(contact, source, field.index),
+        },
+      ]
+    })
+  )
+
+export const isValidExchangeValue = (
+  value: string,
+  field: ExchangeField
+): boolean => {
+  if (!value) return !!field.optional
+  if (field.pattern && !new RegExp(field.pattern).test(value)) return false
+
+  switch (field.type) {
+    case 'number':
+      return (
+        /^\d+$/.test(value) &&
+        Number(value) >= (field.min ?? -Infinity) &&
+        Number(value) <= (field.max ?? Infinity)
+      )
+    case 'rst':
+      return RST.test(value)
+    case 'gridsquare':
+      return parseLocator(value) !== null
+    default:
+      return true
+  }
+}
+
+// Whether the value logged by a station matches the one sent by the other
+// within the tolerance of the field. Values not sent are not checked.
+export const isSameExchangeValue = (
+  logged: string,
+  sent: string,
+  field: ExchangeField
+): boolean => {
+  if (!sent) return true
+  if (!logged) return false
+
+  const tolerance = field.tolerance ?? 0
+  return field.type === 'number'
+    ? Math.abs(Number(logged) - Number(sent)) <= tolerance
+    : getEditDistance(logged, sent) <= tolerance
+}
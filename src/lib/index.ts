@@ -2,13 +2,29 @@ import type {
   Participant,
   ContestResult,
   ContestRules,
+  ScoreContestOptions,
   ScoringResult,
+  LogCheckResult,
 } from 'types'
+import {
+  normalizeSubmissions,
+  normalizeContestRules,
+  normalizeAdjudications,
+} from 'lib/normalizer'
 import { scoreContacts } from 'lib/scorer'
 import { validateContacts } from 'lib/validator'
+import { applyPenaltyRules } from 'lib/penalty'
+import { applyMultiplierRules } from 'lib/multiplier'
 import { applyBonusRules } from 'lib/bonus'
 import { applyTiebreakers } from 'lib/tiebreaker'
+import { assignCategories, getCategoryResults } from 'lib/category'
+import { assignClubs, getClubResults } from 'lib/club'
+import { getOdxResults } from 'lib/odx'
+import { getClaimedScores, getClaimedScoreDetail } from 'lib/claimed'
+import { applyAdjudications, getUnmatchedAdjudications } from 'lib/adjudication'
 import { getRulesContext } from './precalculate'
+import { normalizeCallsign } from 'lib/callsign'
+import { withoutRules } from 'utils'
 
 const formatCounts = (callsigns: Set<string>, counts: Map<string, number>) =>
   Array.from(callsigns)
@@ -16,10 +32,21 @@ const formatCounts = (callsigns: Set<string>, counts: Map<string, number>) =>
     .sort((a, b) => a[0].localeCompare(b[0]))
 
 export const scoreContest = (
-  submissions: Participant[],
-  rules: ContestRules
+  loggedSubmissions: Participant[],
+  contestRules: ContestRules,
+  options: ScoreContestOptions = {}
 ): ContestResult => {
-  const rulesContext = getRulesContext(rules)
+  const rules = normalizeContestRules(contestRules)
+  const submissions = normalizeSubmissions(loggedSubmissions, rules)
+  const categories = assignCategories(submissions, rules)
+  const adjudications =
+    options.adjudications &&
+    normalizeAdjudications(options.adjudications, rules)
+  const rulesContext = {
+    ...getRulesContext(rules, categories),
+    dxcc: options.dxcc,
+    adjudications,
+  }
 
   const {
     validContacts,
@@ -37,13 +64,28 @@ export const scoreContest = (
     appearanceCounts
   )
 
-  const results = applyBonusRules(
+  const penalties = applyPenaltyRules(scoredContacts, rules, scoringDetails)
+
+  const multipliers = applyMultiplierRules(
     scoredContacts,
     rules,
-    rulesContext,
     scoringDetails
   )
 
+  const bonusResults = applyBonusRules(
+    scoredContacts,
+    rules,
+    rulesContext,
+    scoringDetails,
+    penalties,
+    multipliers
+  )
+  const results = applyAdjudications(
+    bonusResults,
+    scoringDetails,
+    adjudications
+  )
+
   const nonCompetingCallsigns = new Set(rules.nonCompeting || [])
   const { competingResults, nonCompetingResults } = results.reduce(
     ({ competingResults, nonCompetingResults }, result) =>
@@ -76,19 +118,150 @@ export const scoreContest = (
     rules
   )
 
+  const clubs = assignClubs(submissions, rules)
+  const claimedScores = getClaimedScores(
+    submissions,
+    rules,
+    categories,
+    options.dxcc
+  )
+  // Disqualifications and point adjustments are reported on their own, so the
+  // points lost only count the contacts lost
+  const finalScores = new Map(bonusResults)
+  const metadata = new Map(
+    submissions.map(([callsign, _, metadata]) => [callsign, metadata])
+  )
+  for (const [callsign, details] of Object.entries(scoringDetails)) {
+    details.category = categories.get(callsign) ?? null
+    details.club = clubs.get(callsign) ?? null
+    details.claimed = getClaimedScoreDetail(
+      claimedScores.get(callsign) ?? 0,
+      finalScores.get(callsign) ?? 0,
+      details.contacts || [],
+      metadata.get(callsign)
+    )
+  }
+
   return {
     results: tiebreakerResults,
     nonCompetingResults: sortedNonCompetingResults,
+    categoryResults: getCategoryResults(tiebreakerResults, categories, rules),
+    clubResults: getClubResults(tiebreakerResults, clubs, rules),
+    odxResults: getOdxResults(tiebreakerResults, scoredContacts),
     scoringDetails,
     missingParticipants: formatCounts(missingParticipants, appearanceCounts),
     blacklistedCallsignsFound: formatCounts(
       blacklistedCallsignsFound,
       blacklistedAppearanceCounts
     ),
+    ...(adjudications && {
+      unmatchedAdjudications: getUnmatchedAdjudications(
+        scoringDetails,
+        adjudications
+      ),
+    }),
   } as ContestResult
 }
 
+// Validation and scoring rules that need the logs of the other participants
+const CROSS_LOG_VALIDATION_RULES = [
+  'default',
+  'contactedInContest',
+  'minimumContacts',
+]
+const CROSS_LOG_SCORING_RULES = ['minimumContacts']
+
+// Check a single log before it is submitted, applying every rule that does not
+// need the logs of the other participants, and give its claimed score
+export const checkLog = (
+  submission: Participant,
+  contestRules: ContestRules,
+  options: ScoreContestOptions = {}
+): LogCheckResult => {
+  const rules: ContestRules = {
+    ...contestRules,
+    categories:
+      contestRules.categories &&
+      Object.fromEntries(
+        Object.entries(contestRules.categories).map(([name, category]) => [
+          name,
+          {
+            ...category,
+            rules: category.rules && {
+              ...category.rules,
+              validation:
+                category.rules.validation &&
+                withoutRules(
+                  category.rules.validation,
+                  CROSS_LOG_VALIDATION_RULES
+                ),
+              scoring:
+                category.rules.scoring &&
+                withoutRules(category.rules.scoring, CROSS_LOG_SCORING_RULES),
+            },
+          },
+        ])
+      ),
+    rules: {
+      ...contestRules.rules,
+      validation: withoutRules(
+        contestRules.rules.validation,
+        CROSS_LOG_VALIDATION_RULES
+      ),
+      scoring: withoutRules(
+        contestRules.rules.scoring,
+        CROSS_LOG_SCORING_RULES
+      ),
+    },
+  }
+
+  const result = scoreContest([submission], rules, options)
+  const callsign = normalizeCallsign(
+    submission[0],
+    contestRules.callsignNormalization
+  )
+  const scoringDetails = result.scoringDetails[callsign]
+  if (!scoringDetails)
+    return {
+      callsign,
+      claimedScore: 0,
+      scoringDetails: {
+        bonusRuleApplied: null,
+        givenBonus: 0,
+        contacts: [],
+        hasMinimumAppearances: false,
+      },
+      error: result.blacklistedCallsignsFound.some(
+        ([blacklisted]) => blacklisted === callsign
+      )
+        ? `${callsign} is blacklisted in this contest`
+        : `The log of ${callsign} could not be checked`,
+    }
+
+  const [, claimedScore = 0] =
+    result.results
+      .concat(result.nonCompetingResults)
+      .find(([resultCallsign]) => resultCallsign === callsign) || []
+
+  return { callsign, claimedScore, scoringDetails }
+}
+
+export * from 'lib/normalizer'
 export * from 'lib/scorer'
 export * from 'lib/validator'
+export * from 'lib/penalty'
+export * from 'lib/multiplier'
 export * from 'lib/bonus'
 export * from 'lib/tiebreaker'
+export * from 'lib/category'
+export * from 'lib/club'
+export * from 'lib/ubn'
+export * from 'lib/callsign'
+export * from 'lib/cabrillo'
+export * from 'lib/dxcc'
+export * from 'lib/odx'
+export * from 'lib/claimed'
+export * from 'lib/exchange'
+export * from 'lib/schema'
+export * from 'lib/lint'
+export * from 'lib/adjudication'
@@ -0,0 +1,185 @@
+import type {
+  ContestRules,
+  RulesError,
+  ScoringRuleConfig,
+  ValidationRuleConfig,
+} from 'types'
+import { validateContestRules } from 'lib/schema'
+import { getRulesContext } from 'lib/precalculate'
+import { getCategoryRules } from 'lib/category'
+import { getKeyPath } from 'utils'
+
+// Time ranges and bands one second apart or less are contiguous
+const MAXIMUM_CONTIGUOUS_GAP = 1000
+
+// Rule lists as written at a path of the rules file: the contest rules, or the
+// overrides of a category
+interface RuleLists {
+  validation: ValidationRuleConfig[]
+  scoring: ScoringRuleConfig[]
+}
+
+// Lints take the rules applied, with the category overrides merged, and report
+// the problems of the rules written in the lists at the path
+type Lint = (
+  rules: ContestRules,
+  lists: RuleLists,
+  path: string
+) => RulesError[]
+
+const findRuleIndex = (rules: (string | [string, unknown])[], name: string) =>
+  rules.findIndex(rule => (typeof rule === 'string' ? rule : rule[0]) === name)
+
+const lintTimeRanges: Lint = (rules, lists, rulesPath) => {
+  const index = findRuleIndex(lists.validation, 'uniqueContactsByTimeRange')
+  if (index === -1) return []
+
+  const path = `${rulesPath}.validation[${index}][1]`
+  const contestStart = new Date(rules.start).getTime()
+  const contestEnd = new Date(rules.end).getTime()
+  const ranges = Object.entries(getRulesContext(rules).timeRanges)
+    .map(([name, { start, end }]) => ({
+      name,
+      start: start.getTime(),
+      end: end.getTime(),
+    }))
+    .sort((a, b) => a.start - b.start)
+
+  return ranges.flatMap((range, i) => [
+    ...(range.start < contestStart || range.end > contestEnd
+      ? [
+          {
+            path: getKeyPath(path, range.name),
+            message: 'The range is outside the contest period',
+          },
+        ]
+      : []),
+    ...(i > 0 && range.start - ranges[i - 1]!.end > MAXIMUM_CONTIGUOUS_GAP
+      ? [
+          {
+            path: getKeyPath(path, range.name),
+            message: `Contacts between the end of "${ranges[i - 1]!.name}" and the start of "${range.name}" are in no range`,
+          },
+        ]
+      : []),
+  ])
+}
+
+const lintTimeRangeScores: Lint = (rules, lists, path) => {
+  const index = findRuleIndex(lists.scoring, 'timeRange')
+  if (index === -1) return []
+
+  const timeRanges = getRulesContext(rules).timeRanges
+  const params = (lists.scoring[index] as [string, object])[1]
+
+  return Object.keys(params)
+    .filter(name => !(name in timeRanges))
+    .map(name => ({
+      path: getKeyPath(`${path}.scoring[${index}][1]`, name),
+      message: `No uniqueContactsByTimeRange range is named "${name}"`,
+    }))
+}
+
+const lintBands: Lint = (rules, lists, path) => {
+  const index = findRuleIndex(lists.validation, 'bands')
+  if (index === -1) return []
+
+  const bands = getRulesContext(rules).bandRanges.toSorted(
+    (a, b) => a.start - b.start
+  )
+
+  return bands.flatMap((band, i) =>
+    i > 0 && band.start <= bands[i - 1]!.end
+      ? [
+          {
+            path: getKeyPath(`${path}.validation[${index}][1]`, band.name!),
+            message: `The band overlaps with "${bands[i - 1]!.name}"`,
+          },
+        ]
+      : []
+  )
+}
+
+const lintMinimumContacts: Lint = (rules, lists, path) => {
+  const index = findRuleIndex(lists.scoring, 'minimumContacts')
+
+  return index !== -1 &&
+    findRuleIndex(rules.rules.validation, 'minimumContacts') === -1
+    ? [
+        {
+          path: `${path}.scoring[${index}]`,
+          message:
+            'minimumContacts is set in scoring but not in validation, so participants appearing in too few logs are still ranked',
+        },
+      ]
+    : []
+}
+
+const LINTS = [
+  lintTimeRanges,
+  lintTimeRangeScores,
+  lintBands,
+  lintMinimumContacts,
+]
+
+// Look for mistakes in a rules file that only show up once a contest is
+// scored, after checking it against the shape of ContestRules. The overrides
+// of every category are checked along with the rules they are merged into.
+export const lintContestRules = (rules: unknown): RulesError[] => {
+  const errors = validateContestRules(rules)
+  if (errors.length > 0) return errors
+
+  const contestRules = rules as ContestRules
+  const categoryLints = Object.entries(contestRules.categories || {})
+    .filter(([_, category]) => category.rules)
+    .map(([name, category]) => ({
+      rules: getCategoryRules(contestRules, name),
+      lists: {
+        validation: category.rules!.validation || [],
+        scoring: category.rules!.scoring || [],
+      },
+      path: `${getKeyPath('categories', name)}.rules`,
+    }))
+
+  return [
+    { rules: contestRules, lists: contestRules.rules, path: 'rules' },
+    ...categoryLints,
+  ].flatMap(({ rules, lists, path }) =>
+    LINTS.flatMap(lint => lint(rules, lists, path))
+  )
+}
+
+// Rules that score nothing without a DXCC database: relativeLocation scoring,
+// in the contest rules or the rules of a category, and dxcc multipliers
+export const findRulesNeedingDxcc = (rules: ContestRules): RulesError[] => {
+  const scoringLists = [
+    { path: 'rules', scoring: rules.rules.scoring },
+    ...Object.entries(rules.categories || {}).map(([name, category]) => ({
+      path: `${getKeyPath('categories', name)}.rules`,
+      scoring: category.rules?.scoring || [],
+    })),
+  ]
+  const multiplierIndex = findRuleIndex(rules.rules.multipliers || [], 'dxcc')
+
+  return [
+    ...scoringLists.flatMap(({ path, scoring }) => {
+      const index = findRuleIndex(scoring, 'relativeLocation')
+      return index === -1
+        ? []
+        : [
+            {
+              path: `${path}.scoring[${index}]`,
+              message: 'relativeLocation needs a DXCC database',
+            },
+          ]
+    }),
+    ...(multiplierIndex === -1
+      ? []
+      : [
+          {
+            path: `rules.multipliers[${multiplierIndex}]`,
+            message: 'dxcc multipliers need a DXCC database',
+          },
+        ]),
+  ]
+}
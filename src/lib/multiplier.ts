@@ -0,0 +1,64 @@
+import type {
+  Callsign,
+  ValidContact,
+  ContestRules,
+  MultiplierDetail,
+  MultiplierScope,
+  ParticipantScoringDetail,
+} from 'types'
+import { multipliers } from 'lib/rules/multipliers'
+
+const getScope = (contact: ValidContact, per: MultiplierScope = 'contest') =>
+  per === 'band' ? contact.band : per === 'mode' ? contact.mode : ''
+
+// Count the distinct multiplier values worked by each participant
+export const applyMultiplierRules = (
+  scoredContacts: Map<Callsign, ValidContact[]>,
+  rules: ContestRules,
+  scoringDetails: Record<string, Partial<ParticipantScoringDetail>>
+): Map<Callsign, number> => {
+  const multiplierRules = rules.rules.multipliers || []
+  if (multiplierRules.length === 0) return new Map()
+
+  return new Map(
+    Array.from(scoredContacts.entries()).map(([callsign, contacts]) => {
+      const records = scoringDetails[callsign]?.contacts || []
+
+      const earned = multiplierRules.reduce((details, rule) => {
+        const [ruleName, params] = Array.isArray(rule)
+          ? rule
+          : [rule, undefined]
+
+        const worked = new Set<string>()
+
+        return contacts.reduce((ruleDetails, contact) => {
+          const value = multipliers[ruleName](
+            contact,
+            records[contact.scoringDetailsIndex] || {},
+            params
+          )
+          if (!value) return ruleDetails
+
+          const scope = getScope(contact, params?.per)
+          const key = `${scope}:${value}`
+          if (worked.has(key)) return ruleDetails
+
+          worked.add(key)
+          return ruleDetails.concat({
+            rule: ruleName,
+            value,
+            scope,
+            scoringDetailsIndex: contact.scoringDetailsIndex,
+          })
+        }, details)
+      }, [] as MultiplierDetail[])
+
+      if (callsign in scoringDetails) {
+        scoringDetails[callsign]!.multipliers = earned
+        scoringDetails[callsign]!.givenMultiplier = earned.length
+      }
+
+      return [callsign, earned.length]
+    })
+  )
+}
@@ -0,0 +1,85 @@
+import type { Adjudications, ContestRules, Participant } from 'types'
+import { normalizeCallsign } from 'lib/callsign'
+
+// Normalize the callsign of every submission and contact, keeping the logged
+// call in originalCall when it changes
+export const normalizeSubmissions = (
+  submissions: Participant[],
+  rules: ContestRules
+): Participant[] =>
+  submissions.map(([callsign, contacts, metadata]) => [
+    normalizeCallsign(callsign, rules.callsignNormalization),
+    contacts?.map(contact => {
+      const originalCall = String(contact.call || '')
+      const call = normalizeCallsign(originalCall, rules.callsignNormalization)
+      return call === originalCall
+        ? contact
+        : { ...contact, call, originalCall }
+    }),
+    metadata,
+  ])
+
+export const normalizeContestRules = (rules: ContestRules): ContestRules => ({
+  ...rules,
+  blacklist: rules.blacklist?.map(callsign =>
+    normalizeCallsign(callsign, rules.callsignNormalization)
+  ),
+  nonCompeting: rules.nonCompeting?.map(callsign =>
+    normalizeCallsign(callsign, rules.callsignNormalization)
+  ),
+  categories:
+    rules.categories &&
+    Object.fromEntries(
+      Object.entries(rules.categories).map(([category, definition]) => [
+        category,
+        {
+          ...definition,
+          participants: definition.participants?.map(callsign =>
+            normalizeCallsign(callsign, rules.callsignNormalization)
+          ),
+        },
+      ])
+    ),
+  clubs: rules.clubs && {
+    ...rules.clubs,
+    members:
+      rules.clubs.members &&
+      Object.fromEntries(
+        Object.entries(rules.clubs.members).map(([club, members]) => [
+          club,
+          members.map(callsign =>
+            normalizeCallsign(callsign, rules.callsignNormalization)
+          ),
+        ])
+      ),
+  },
+})
+
+// Normalize the callsigns of the adjudications the same way as the logs, so
+// they are found by the normalized callsigns
+export const normalizeAdjudications = (
+  adjudications: Adjudications,
+  rules: ContestRules
+): Adjudications => {
+  const normalize = (callsign: string) =>
+    normalizeCallsign(callsign, rules.callsignNormalization)
+  const normalizeKeys = <T>(
+    records?: Record<string, T>,
+    normalizeValue: (value: T) => T = value => value
+  ) =>
+    records &&
+    Object.fromEntries(
+      Object.entries(records).map(([callsign, value]) => [
+        normalize(callsign),
+        normalizeValue(value),
+      ])
+    )
+
+  return {
+    contacts: normalizeKeys(adjudications.contacts, contacts =>
+      contacts.map(contact => ({ ...contact, call: normalize(contact.call) }))
+    ),
+    disqualified: normalizeKeys(adjudications.disqualified),
+    adjustments: normalizeKeys(adjudications.adjustments),
+  }
+}
@@ -0,0 +1,32 @@
+import type { Callsign, OdxResult, ScoringResult, ValidContact } from 'types'
+
+// Longest valid contact of every ranked participant whose contacts have a
+// known distance, sorted by distance
+export const getOdxResults = (
+  results: ScoringResult[],
+  scoredContacts: Map<Callsign, ValidContact[]>
+): OdxResult[] =>
+  results
+    .flatMap(([callsign]) => {
+      const longest = (scoredContacts.get(callsign) || []).reduce<
+        ValidContact | undefined
+      >(
+        (longest, contact) =>
+          contact.distance !== undefined &&
+          contact.distance > (longest?.distance ?? -1)
+            ? contact
+            : longest,
+        undefined
+      )
+
+      return longest
+        ? [
+            {
+              callsign,
+              contactedCallsign: longest.contactedCallsign,
+              distance: longest.distance!,
+            },
+          ]
+        : []
+    })
+    .sort((a, b) => b.distance - a.distance)
@@ -0,0 +1,63 @@
+import type {
+  Callsign,
+  ValidContact,
+  ContestRules,
+  ParticipantScoringDetail,
+} from 'types'
+import { penalizers } from 'lib/rules/penalizers'
+
+// Points taken away from each participant for their invalid contacts. Dupes
+// are only penalized by the penalty dupe policy.
+export const applyPenaltyRules = (
+  scoredContacts: Map<Callsign, ValidContact[]>,
+  rules: ContestRules,
+  scoringDetails: Record<string, Partial<ParticipantScoringDetail>>
+): Map<Callsign, number> => {
+  const penaltyRules = rules.rules.penalty || []
+  const dupePenalty = Array.isArray(rules.dupePolicy) ? rules.dupePolicy[1] : 1
+
+  return new Map(
+    Array.from(scoredContacts.keys()).map(callsign => {
+      const details = scoringDetails[callsign]
+      if (!details) return [callsign, 0]
+
+      const penalty = (details.contacts || [])
+        .filter(contact => contact.invalidValidationRule)
+        .reduce((total, contact) => {
+          contact.penaltyRule = null
+          contact.givenPenalty = 0
+
+          if (contact.dupePolicy) {
+            const points = contact.dupePolicy === 'penalty' ? dupePenalty : 0
+            contact.givenPenalty = -points
+            return total - points
+          }
+
+          const points = penaltyRules.reduce((currentPoints, rule) => {
+            const [ruleName, params] = Array.isArray(rule)
+              ? rule
+              : [rule, undefined]
+
+            const rulePoints = penalizers[ruleName](
+              contact,
+              currentPoints,
+              params
+            )
+
+            if (rulePoints !== currentPoints) {
+              contact.penaltyRule = ruleName
+              contact.givenPenalty = -rulePoints
+            }
+
+            return rulePoints
+          }, 0)
+
+          return total - points
+        }, 0)
+
+      details.givenPenalty = penalty
+
+      return [callsign, penalty]
+    })
+  )
+}
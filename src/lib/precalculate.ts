@@ -1,7 +1,39 @@
-import type { ContestRules, RulesContext } from 'types'
+import type { Callsign, ContestRules, RulesContext } from 'types'
+import { getCategoryRules } from 'lib/category'
 import { extractRule } from 'utils'
 
-export const getRulesContext = (contestRules: ContestRules): RulesContext => {
+export const getRulesContext = (
+  contestRules: ContestRules,
+  categories: Map<Callsign, string> = new Map()
+): RulesContext => {
+  const categoryRulesContexts = Object.fromEntries(
+    Object.entries(contestRules.categories || {})
+      .filter(([_, definition]) => definition.rules)
+      .map(([category]) => [
+        category,
+        createRulesContext(getCategoryRules(contestRules, category)),
+      ])
+  )
+
+  return {
+    ...createRulesContext(contestRules),
+    categories,
+    categoryRulesContexts,
+  }
+}
+
+// Rules context of a participant, taking its category overrides into account
+export const getParticipantRulesContext = (
+  rulesContext: RulesContext,
+  callsign: Callsign
+): RulesContext => {
+  const category = rulesContext.categories?.get(callsign)
+  return (
+    (category && rulesContext.categoryRulesContexts?.[category]) || rulesContext
+  )
+}
+
+const createRulesContext = (contestRules: ContestRules): RulesContext => {
   const timeRangeRule = extractRule(
     contestRules.rules.validation,
     'uniqueContactsByTimeRange'
@@ -0,0 +1,62 @@
+import type {
+  Contact,
+  MultiplierRule,
+  MultiplierRuleParam,
+  ValidContact,
+} from 'types'
+import { getWpxPrefix } from 'lib/callsign'
+
+export const exchangeMultiplier = (contact: ValidContact): string | null =>
+  contact.exchanges.srxString.trim().toUpperCase() || null
+
+export const gridsquareMultiplier = (
+  _: ValidContact,
+  record: Contact,
+  params: MultiplierRuleParam = {}
+): string | null =>
+  String(record.gridsquare || '')
+    .trim()
+    .toUpperCase()
+    .slice(0, params.precision ?? 4) || null
+
+export const fieldMultiplier = (
+  _: ValidContact,
+  record: Contact,
+  params: MultiplierRuleParam = {}
+): string | null =>
+  String(record[String(params.field || '').toLowerCase()] || '')
+    .trim()
+    .toUpperCase() || null
+
+export const prefixMultiplier = (contact: ValidContact): string | null =>
+  getWpxPrefix(contact.contactedCallsign) || null
+
+// Entity of the contacted station, or its continent, CQ or ITU zone when
+// given as the by param
+export const dxccMultiplier = (
+  contact: ValidContact,
+  _: Contact,
+  params: MultiplierRuleParam = {}
+): string | null => {
+  const entity = contact.contactedDxcc
+  if (!entity) return null
+
+  switch (params.by) {
+    case 'continent':
+      return entity.continent
+    case 'cqZone':
+      return String(entity.cqZone)
+    case 'ituZone':
+      return String(entity.ituZone)
+    default:
+      return entity.prefix
+  }
+}
+
+export const multipliers: Record<MultiplierRule, any> = {
+  exchange: exchangeMultiplier,
+  prefix: prefixMultiplier,
+  gridsquare: gridsquareMultiplier,
+  field: fieldMultiplier,
+  dxcc: dxccMultiplier,
+}
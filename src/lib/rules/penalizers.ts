@@ -0,0 +1,21 @@
+import type { ContactScoringDetail, PenaltyRule } from 'types'
+
+export const defaultPenalizer = (
+  _: ContactScoringDetail,
+  __: number,
+  points: number = 1
+): number => points
+
+export const invalidationReasonPenalizer = (
+  contact: ContactScoringDetail,
+  penalty: number,
+  params: Record<string, number>
+): number =>
+  contact.invalidationReason
+    ? (params[contact.invalidationReason] ?? penalty)
+    : penalty
+
+export const penalizers: Record<PenaltyRule, any> = {
+  default: defaultPenalizer,
+  invalidationReason: invalidationReasonPenalizer,
+}
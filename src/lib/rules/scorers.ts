@@ -1,4 +1,11 @@
-import type { ScoringContext, ValidContact, ScoringRule } from 'types'
+import type {
+  ScoringContext,
+  ValidContact,
+  ScoringRule,
+  RelativeLocationScorerParams,
+  DistanceScorerParams,
+  BandModeScorerParams,
+} from 'types'
 import { parseDateTime } from 'utils'
 
 export const defaultScorer = (
@@ -35,8 +42,84 @@ export const bonusStationsScorer = (
   return params[contactedCallsign] ?? validContact.score
 }
 
+// Points depending on whether the contacted station is in the same DXCC
+// entity, on the same continent or on another one. Contacts without the
+// entity of both stations keep their score.
+export const relativeLocationScorer = (
+  validContact: ValidContact,
+  _: ScoringContext,
+  params: RelativeLocationScorerParams
+): number => {
+  const { dxcc, contactedDxcc, mode } = validContact
+  if (!dxcc || !contactedDxcc) return validContact.score
+
+  const { modes, ...defaultPoints } = params
+  const points = { ...defaultPoints, ...modes?.[mode.toUpperCase()] }
+
+  const score =
+    dxcc.name === contactedDxcc.name
+      ? points.sameCountry
+      : dxcc.continent === contactedDxcc.continent
+        ? points.sameContinent
+        : points.otherContinent
+
+  return score ?? validContact.score
+}
+
+// Points by the distance between the locators of both stations, either per
+// km or by distance bands. Contacts without a known distance keep their score.
+export const distanceScorer = (
+  validContact: ValidContact,
+  _: ScoringContext,
+  params: DistanceScorerParams = {}
+): number => {
+  const { distance } = validContact
+  if (distance === undefined) return validContact.score
+
+  if (!params.ranges) return Math.round(distance * (params.perKm ?? 1))
+
+  const range = params.ranges
+    .filter(([minimum]) => distance >= minimum)
+    .sort((a, b) => b[0] - a[0])[0]
+
+  return range ? range[1] : validContact.score
+}
+
+const toUpperCaseKeys = <T>(table: Record<string, T>): Record<string, T> =>
+  Object.fromEntries(
+    Object.entries(table).map(([key, value]) => [key.toUpperCase(), value])
+  )
+
+// Cell of the bandMode table that applies to a contact, e.g. 40M/CW or 2M/*,
+// preferring exact band and mode matches over wildcards
+export const getBandModeCell = (
+  validContact: ValidContact,
+  params: BandModeScorerParams
+): { cell: string; points: number } | null => {
+  const bands = toUpperCaseKeys(params)
+
+  for (const band of [validContact.band.toUpperCase(), '*']) {
+    const modes = toUpperCaseKeys(bands[band] || {})
+    const mode = [validContact.mode.toUpperCase(), '*'].find(
+      mode => mode in modes
+    )
+    if (mode) return { cell: `${band}/${mode}`, points: modes[mode]! }
+  }
+
+  return null
+}
+
+export const bandModeScorer = (
+  validContact: ValidContact,
+  _: ScoringContext,
+  params: BandModeScorerParams
+): number => getBandModeCell(validContact, params)?.points ?? validContact.score
+
 export const scorers: Record<Exclude<ScoringRule, 'minimumContacts'>, any> = {
   default: defaultScorer,
   timeRange: timeRangeScorer,
   bonusStations: bonusStationsScorer,
+  relativeLocation: relativeLocationScorer,
+  distance: distanceScorer,
+  bandMode: bandModeScorer,
 }
@@ -6,81 +6,308 @@ import type {
   Validator,
   RulesContext,
   ParticipantScoringDetail,
+  DefaultValidatorParams,
+  CrossCheckResult,
+  InvalidationReason,
+  DupesValidatorParams,
+  ExchangeField,
+  SerialAuditEntry,
+  SerialAuditIssue,
+  SerialCheckOptions,
+  CreditReason,
 } from 'types'
 import {
   getDateTimeFromContact,
   parseDateTime,
   getTimeDiffInMinutes,
   areFrequenciesWithinTolerance,
+  getEditDistance,
 } from 'utils'
+import {
+  getExchangeFields,
+  isSameExchangeValue,
+  isValidExchangeValue,
+} from 'lib/exchange'
+
+// Maximum edit distance between the logged and the probable callsign for a
+// contact to be considered a busted callsign instead of a not-in-log
+const MAXIMUM_BUSTED_CALLSIGN_DISTANCE = 2
+
+// Compare the exchange received by a station with the one sent by the other,
+// using the exchange fields declared in the rules, each with its own
+// tolerance, or else the raw exchange strings. Signal reports are only
+// compared when checkRst is set.
+const isSameReceivedExchange = (
+  contact: ValidContact,
+  other: ValidContact,
+  exchangeFields: ExchangeField[],
+  checkRst: boolean
+) => {
+  if (exchangeFields.length > 0) {
+    const values = contact.exchanges.fields || {}
+    const otherValues = other.exchanges.fields || {}
+
+    return exchangeFields
+      .filter(field => field.crossCheck !== false)
+      .every(field =>
+        isSameExchangeValue(
+          values[field.name]?.received || '',
+          otherValues[field.name]?.sent || '',
+          field
+        )
+      )
+  }
 
-export const defaultValidator = (
-  callsign: Callsign,
+  const { rstRcvd, srxString } = contact.exchanges
+  const { rstSent: otherRstSent, stxString: otherStxString } = other.exchanges
+
+  const rstMatch = !checkRst || rstRcvd === otherRstSent
+
+  return rstMatch && srxString === otherStxString
+}
+
+// Compare the exchange and, when checked, the serial received by a station
+// with the ones sent by the other. A serial received off by at most the
+// tolerance is a copying error. Missing serials are not checked.
+const compareReceivedExchange = (
   contact: ValidContact,
-  contactIndex: ContactIndex,
-  params: { maximumTimeDiff?: number; maximumFrequencyDiff?: number } = {}
-): boolean => {
-  const maximumTimeDiff = params.maximumTimeDiff || 2
-  const maximumFrequencyDiff = (params.maximumFrequencyDiff || 2) / 1000
+  other: ValidContact,
+  exchangeFields: ExchangeField[],
+  checkRst: boolean,
+  serials?: SerialCheckOptions
+): 'match' | 'copyingError' | 'mismatch' => {
+  if (!isSameReceivedExchange(contact, other, exchangeFields, checkRst))
+    return 'mismatch'
+
+  const received = contact.exchanges.srx
+  const sent = other.exchanges.stx
+  if (!serials || !received || !sent) return 'match'
+
+  const serialDiff = Math.abs(Number(received) - Number(sent))
+  if (isNaN(serialDiff) || serialDiff > (serials.tolerance ?? 0))
+    return 'mismatch'
+  return serialDiff > 0 ? 'copyingError' : 'match'
+}
 
-  const contactDateTime = parseDateTime(contact.date, contact.time)
-  const band = contact.band
-  const freq = contact.freq
-  const freqNum = freq ? Number(freq) : NaN
-  const mode = contact.mode
+// Credit given for a matching record of the other station, from the errors
+// each station made copying the exchange of the other. The largest penalty
+// applies when both did.
+const getExchangeCredit = (
+  contact: ValidContact,
+  other: ValidContact,
+  exchangeFields: ExchangeField[],
+  params: DefaultValidatorParams
+): CrossCheckResult => {
+  // Stations logging no signal reports are not checked for them, in either
+  // direction
+  const checkRst =
+    contact.exchanges.rstSent !== '' || contact.exchanges.rstRcvd !== ''
+  const received = compareReceivedExchange(
+    contact,
+    other,
+    exchangeFields,
+    checkRst,
+    params.serials
+  )
+  const sent = compareReceivedExchange(
+    other,
+    contact,
+    exchangeFields,
+    checkRst,
+    params.serials
+  )
 
-  const { rstSent, rstRcvd, stxString, srxString } = contact.exchanges
+  const credits = (
+    [
+      received === 'copyingError' && [
+        params.serials?.credit ?? 0.5,
+        'copyingError',
+      ],
+      received === 'mismatch' && [
+        params.partialCredit?.receivedExchange ?? 0,
+        'receivedExchangeMismatch',
+      ],
+      sent === 'mismatch' && [
+        params.partialCredit?.sentExchange ?? 0,
+        'sentExchangeMismatch',
+      ],
+    ] as ([number, CreditReason] | false)[]
+  ).filter((credit): credit is [number, CreditReason] => !!credit)
+  if (credits.length === 0) return { reason: null }
+
+  const [credit, creditReason] = credits.reduce((lowest, current) =>
+    current[0] < lowest[0] ? current : lowest
+  )
+  return credit > 0
+    ? { reason: null, credit, creditReason }
+    : { reason: 'exchangeMismatch' }
+}
 
-  const callsignIndex = contactIndex?.get(contact.contactedCallsign)
-  if (!callsignIndex) return false
+const isWithinTime = (
+  contact: ValidContact,
+  other: ValidContact,
+  maximumTimeDiff: number
+) =>
+  getTimeDiffInMinutes(
+    parseDateTime(contact.date, contact.time),
+    parseDateTime(other.date, other.time)
+  ) <= maximumTimeDiff
+
+// Look for another station that logged this callsign at the same time, band
+// and mode, which this callsign did not log, and whose callsign is close to the
+// one that was logged instead
+const findProbableCallsign = (
+  callsign: Callsign,
+  contact: ValidContact,
+  contactIndex: ContactIndex,
+  maximumTimeDiff: number
+): Callsign | undefined => {
+  const bandModeKey = `${contact.band}-${contact.mode}`
+  const ownIndex = contactIndex.get(callsign)
 
-  const callerIndex = callsignIndex.get(callsign)
-  if (!callerIndex) return false
+  return Array.from(contactIndex.entries())
+    .filter(([otherCallsign, otherIndex]) => {
+      if (
+        otherCallsign === callsign ||
+        otherCallsign === contact.contactedCallsign
+      )
+        return false
+
+      const loggedBack = (
+        otherIndex.get(callsign)?.get(bandModeKey) || []
+      ).some(other => isWithinTime(contact, other, maximumTimeDiff))
+      if (!loggedBack) return false
+
+      const alreadyLogged = (
+        ownIndex?.get(otherCallsign)?.get(bandModeKey) || []
+      ).some(own => isWithinTime(contact, own, maximumTimeDiff))
+
+      return !alreadyLogged
+    })
+    .map(
+      ([otherCallsign]) =>
+        [
+          otherCallsign,
+          getEditDistance(otherCallsign, contact.contactedCallsign),
+        ] as const
+    )
+    .filter(([_, distance]) => distance <= MAXIMUM_BUSTED_CALLSIGN_DISTANCE)
+    .sort((a, b) => a[1] - b[1])[0]?.[0]
+}
 
-  const bandModeKey = `${band}-${mode}`
-  const potentialMatches = callerIndex.get(bandModeKey)
-  if (!potentialMatches || potentialMatches.length === 0) return false
+// Cross-check a contact against the contacted station's log, classifying why
+// it failed when no matching record is found
+export const crossCheckContact = (
+  callsign: Callsign,
+  contact: ValidContact,
+  contactIndex: ContactIndex,
+  params: DefaultValidatorParams = {},
+  exchangeFields: ExchangeField[] = []
+): CrossCheckResult => {
+  const maximumTimeDiff = params.maximumTimeDiff || 2
+  const maximumFrequencyDiff = (params.maximumFrequencyDiff || 2) / 1000
 
-  return potentialMatches.some(validContact => {
-    const validContactDateTime = parseDateTime(
-      validContact.date,
-      validContact.time
+  const bustedOr = (reason: InvalidationReason): CrossCheckResult => {
+    const correctCallsign = findProbableCallsign(
+      callsign,
+      contact,
+      contactIndex,
+      maximumTimeDiff
     )
+    return correctCallsign
+      ? { reason: 'bustedCallsign', correctCallsign }
+      : { reason }
+  }
 
-    const timeDiff = getTimeDiffInMinutes(contactDateTime, validContactDateTime)
+  const loggedBack = Array.from(
+    contactIndex?.get(contact.contactedCallsign)?.get(callsign)?.values() || []
+  ).flat()
+  if (loggedBack.length === 0) return bustedOr('notInLog')
 
-    const {
-      rstSent: otherRstSent,
-      rstRcvd: otherRstRcvd,
-      stxString: otherStxString,
-      srxString: otherSrxString,
-    } = validContact.exchanges
+  const timeMatches = loggedBack.filter(other =>
+    isWithinTime(contact, other, maximumTimeDiff)
+  )
+  if (timeMatches.length === 0) return bustedOr('timeMismatch')
 
-    const timeMatch = timeDiff <= maximumTimeDiff
+  const bandModeMatches = timeMatches.filter(
+    other => other.band === contact.band && other.mode === contact.mode
+  )
+  if (bandModeMatches.length === 0)
+    return {
+      reason: timeMatches.some(other => other.band === contact.band)
+        ? 'modeMismatch'
+        : 'bandMismatch',
+    }
 
-    const freqMatch = areFrequenciesWithinTolerance(
-      freqNum,
-      validContact.freq,
+  const freqMatches = bandModeMatches.filter(other =>
+    areFrequenciesWithinTolerance(
+      contact.freq ? Number(contact.freq) : NaN,
+      other.freq,
       maximumFrequencyDiff
     )
+  )
+  if (freqMatches.length === 0) return { reason: 'frequencyMismatch' }
 
-    const rstMatch =
-      (rstSent === '' && rstRcvd === '') ||
-      (rstSent === otherRstRcvd && rstRcvd === otherRstSent)
-
-    const hasExchangeInfo =
-      stxString !== '' ||
-      srxString !== '' ||
-      otherStxString !== '' ||
-      otherSrxString !== ''
+  // The record of the other station giving the most credit is used
+  const results = freqMatches.map(other =>
+    getExchangeCredit(contact, other, exchangeFields, params)
+  )
+  return (
+    results.find(result => !result.reason && result.credit === undefined) ||
+    results
+      .filter(result => !result.reason)
+      .sort((a, b) => b.credit! - a.credit!)[0] || {
+      reason: 'exchangeMismatch',
+    }
+  )
+}
 
-    const exchangeMatch =
-      !hasExchangeInfo ||
-      (stxString === otherSrxString && srxString === otherStxString)
+// Find the sent serials of a log that go backwards, repeat or skip more than
+// the maximum gap, in the order the contacts were made
+export const auditSentSerials = (
+  contacts: ValidContact[],
+  maximumGap: number
+): SerialAuditEntry[] =>
+  contacts
+    .filter(contact => /^\d+$/.test(contact.exchanges.stx || ''))
+    .sort(
+      (a, b) =>
+        parseDateTime(a.date, a.time).getTime() -
+        parseDateTime(b.date, b.time).getTime()
+    )
+    .flatMap((contact, i, sorted): SerialAuditEntry[] => {
+      if (i === 0) return []
+
+      const serial = Number(contact.exchanges.stx)
+      const previousSerial = Number(sorted[i - 1]!.exchanges.stx)
+      const issue: SerialAuditIssue | null =
+        serial < previousSerial
+          ? 'backwards'
+          : serial === previousSerial
+            ? 'repeated'
+            : serial - previousSerial > maximumGap
+              ? 'gap'
+              : null
+
+      return issue
+        ? [
+            {
+              index: contact.scoringDetailsIndex,
+              serial,
+              previousSerial,
+              issue,
+            },
+          ]
+        : []
+    })
 
-    return timeMatch && freqMatch && rstMatch && exchangeMatch
-  })
-}
+export const defaultValidator = (
+  callsign: Callsign,
+  contact: ValidContact,
+  contactIndex: ContactIndex,
+  params: DefaultValidatorParams = {}
+): boolean =>
+  crossCheckContact(callsign, contact, contactIndex, params).reason === null
 
 export const timeRangeValidator: Validator = (_, contact, context) => {
   const { date, time } = getDateTimeFromContact(contact)
@@ -119,6 +346,34 @@ export const contactedInContestValidator: Validator = (_, contact, context) =>
     ? context.participantCallsigns.has(contact.call)
     : false)
 
+const findTimeRange = (
+  contact: ValidContact,
+  timeRanges: Record<string, { start: Date; end: Date }>
+) => {
+  const contactDateTime = parseDateTime(contact.date, contact.time)
+  return Object.values(timeRanges).find(
+    ({ start, end }) => contactDateTime >= start && contactDateTime <= end
+  )
+}
+
+// Contact accepted before with the same station in the time range of the
+// contact
+export const findTimeRangeDupeOriginal = (
+  contact: ValidContact,
+  acceptedContacts: ValidContact[],
+  timeRanges: Record<string, { start: Date; end: Date }>
+): ValidContact | undefined => {
+  const range = findTimeRange(contact, timeRanges)
+  if (!range) return undefined
+
+  return acceptedContacts.find(existing => {
+    if (existing.contactedCallsign !== contact.contactedCallsign) return false
+
+    const existingDateTime = parseDateTime(existing.date, existing.time)
+    return existingDateTime >= range.start && existingDateTime <= range.end
+  })
+}
+
 export const uniqueContactsByTimeRangeValidator = (
   callsign: Callsign,
   contact: ValidContact,
@@ -131,26 +386,55 @@ export const uniqueContactsByTimeRangeValidator = (
   const { date, time } = getDateTimeFromContact(contact)
   if (!date || !time) return false
 
-  const contactDateTime = parseDateTime(date, time)
-
-  const existingContacts = validContacts.get(callsign) || []
+  if (!findTimeRange(contact, timeRanges)) return false
 
-  const currentRange = Object.entries(timeRanges).find(
-    ([_, { start, end }]) => contactDateTime >= start && contactDateTime <= end
-  )?.[0]
-  if (!currentRange) return false
-
-  const existingContactsInSameRange = existingContacts.filter(existing => {
-    if (existing.contactedCallsign !== contactedCallsign) return false
-
-    const existingDateTime = parseDateTime(existing.date, existing.time)
-    const range = timeRanges[currentRange]
-    if (!range) return false
+  return !findTimeRangeDupeOriginal(
+    contact,
+    validContacts.get(callsign) || [],
+    timeRanges
+  )
+}
 
-    return existingDateTime >= range.start && existingDateTime <= range.end
-  })
+// Contacts with the same station and dupe key repeat each other
+export const getDupeKey = (
+  contact: ValidContact,
+  { key = 'bandMode' }: DupesValidatorParams = {}
+): string =>
+  `${contact.contactedCallsign}:${
+    {
+      band: contact.band,
+      mode: contact.mode,
+      bandMode: `${contact.band}-${contact.mode}`,
+      contest: '',
+    }[key]
+  }`
+
+// A contact repeating an accepted one is a dupe, unless it is at least
+// minimumGap minutes newer
+export const isDupeOf = (
+  contact: ValidContact,
+  original: ValidContact,
+  { minimumGap }: DupesValidatorParams = {}
+): boolean =>
+  minimumGap === undefined ||
+  getTimeDiffInMinutes(
+    parseDateTime(original.date, original.time),
+    parseDateTime(contact.date, contact.time)
+  ) < minimumGap
+
+// Latest contact accepted before with the same station and dupe key, unless
+// it is at least minimumGap minutes older than the contact
+export const findDupeOriginal = (
+  contact: ValidContact,
+  acceptedContacts: ValidContact[],
+  params: DupesValidatorParams = {}
+): ValidContact | undefined => {
+  const dupeKey = getDupeKey(contact, params)
+  const original = acceptedContacts.findLast(
+    accepted => getDupeKey(accepted, params) === dupeKey
+  )
 
-  return existingContactsInSameRange.length === 0
+  return original && isDupeOf(contact, original, params) ? original : undefined
 }
 
 export const exchangeValidator: Validator<string> = (
@@ -165,9 +449,20 @@ export const exchangeValidator: Validator<string> = (
       )
     : false
 
+// Validate the received value of every exchange field declared in the rules
+export const exchangeFieldsValidator: Validator = (_, contact, context) => {
+  const fields = context.contestRules.exchangeFields || []
+  const values = getExchangeFields(contact, fields)
+
+  return fields.every(field =>
+    isValidExchangeValue(values[field.name]!.received, field)
+  )
+}
+
+// The minimum may be given for each participant, as set by its category
 export const minimumContactsValidator = (
   validContactsMap: Map<Callsign, ValidContact[]>,
-  minimumAppearances: number,
+  minimumAppearances: number | ((callsign: Callsign) => number),
   rulesContext: RulesContext,
   scoringDetails: Record<Callsign, Partial<ParticipantScoringDetail>>,
   missingParticipants: Set<Callsign>,
@@ -175,6 +470,10 @@ export const minimumContactsValidator = (
 ): Map<Callsign, ValidContact[] | null> => {
   const allowMissingParticipants =
     !!rulesContext?.contestRules?.allowMissingParticipants
+  const getMinimumAppearances =
+    typeof minimumAppearances === 'number'
+      ? () => minimumAppearances
+      : minimumAppearances
 
   const missingParticipantsResult: [Callsign, ValidContact[] | null][] = []
   if (allowMissingParticipants) {
@@ -183,7 +482,7 @@ export const minimumContactsValidator = (
     for (const missingCallsign of missingParticipants) {
       const appearances = appearanceCounts.get(missingCallsign) || 0
       if (
-        appearances >= minimumAppearances &&
+        appearances >= getMinimumAppearances(missingCallsign) &&
         !validContactsMap.has(missingCallsign)
       ) {
         // Add an null entry for missing participants who meet the threshold
@@ -197,7 +496,8 @@ export const minimumContactsValidator = (
     Array.from<[string, ValidContact[] | null]>(validContactsMap)
       .filter(([callsign, contacts]) => {
         const hasMinimumAppearances =
-          (appearanceCounts.get(callsign) || 0) >= minimumAppearances
+          (appearanceCounts.get(callsign) || 0) >=
+          getMinimumAppearances(callsign)
         if (!hasMinimumAppearances) {
           for (const contact of contacts || []) {
             if (!scoringDetails[callsign]!.contacts!) continue
@@ -220,4 +520,5 @@ export const validators = {
   mode: modeValidator,
   contactedInContest: contactedInContestValidator,
   exchange: exchangeValidator,
+  exchangeFields: exchangeFieldsValidator,
 } as Record<ValidationRule, Validator>
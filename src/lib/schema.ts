@@ -0,0 +1,379 @@
+import type { RulesError } from 'types'
+import { getEditDistance, getKeyPath } from 'utils'
+
+// Checks a value found at a JSON path, returning the problems found
+type Check = (value: unknown, path: string) => RulesError[]
+
+// Parameters taken by a rule, and whether the rule needs them
+interface RuleParams {
+  check?: Check
+  required?: boolean
+}
+
+// Maximum edit distance between an unknown name and a known one for the known
+// one to be suggested
+const MAXIMUM_SUGGESTION_DISTANCE = 2
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const typeOf = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value
+
+const fail = (path: string, message: string): RulesError[] => [
+  { path, message },
+]
+
+const suggest = (name: string, known: string[]) => {
+  const [closest] = known
+    .map(candidate => [candidate, getEditDistance(name, candidate)] as const)
+    .filter(([_, distance]) => distance <= MAXIMUM_SUGGESTION_DISTANCE)
+    .sort((a, b) => a[1] - b[1])
+  return closest ? ` (did you mean "${closest[0]}"?)` : ''
+}
+
+const expectType =
+  (type: string): Check =>
+  (value, path) =>
+    typeOf(value) === type
+      ? []
+      : fail(path, `Expected a ${type}, found a ${typeOf(value)}`)
+
+const string = expectType('string')
+const boolean = expectType('boolean')
+
+const number: Check = (value, path) =>
+  typeof value === 'number' && isFinite(value)
+    ? []
+    : fail(path, `Expected a number, found a ${typeOf(value)}`)
+
+// Numbers written as strings are accepted, as in band edges like "7.000"
+const numeric: Check = (value, path) =>
+  (typeof value === 'number' || typeof value === 'string') &&
+  value !== '' &&
+  isFinite(Number(value))
+    ? []
+    : fail(path, `Expected a number, found ${JSON.stringify(value)}`)
+
+// Both checks must pass, the second one only being run when the first does
+const both =
+  (first: Check, second: Check): Check =>
+  (value, path) => {
+    const errors = first(value, path)
+    return errors.length > 0 ? errors : second(value, path)
+  }
+
+const date: Check = both(string, (value, path) =>
+  isNaN(new Date(value as string).getTime())
+    ? fail(path, `Unparseable date "${value}"`)
+    : []
+)
+
+const regex: Check = both(string, (value, path) => {
+  try {
+    new RegExp(value as string)
+    return []
+  } catch {
+    return fail(path, `Invalid regular expression "${value}"`)
+  }
+})
+
+const pattern =
+  (regex: RegExp, description: string): Check =>
+  (value, path) =>
+    typeof value === 'string' && regex.test(value)
+      ? []
+      : fail(path, `Expected ${description}, found ${JSON.stringify(value)}`)
+
+const oneOf =
+  (values: string[]): Check =>
+  (value, path) =>
+    typeof value === 'string' && values.includes(value)
+      ? []
+      : fail(
+          path,
+          `Expected one of ${values.join(', ')}, found ${JSON.stringify(value)}${
+            typeof value === 'string' ? suggest(value, values) : ''
+          }`
+        )
+
+const arrayOf =
+  (check: Check): Check =>
+  (value, path) =>
+    Array.isArray(value)
+      ? value.flatMap((item, i) => check(item, `${path}[${i}]`))
+      : fail(path, `Expected an array, found a ${typeOf(value)}`)
+
+const recordOf =
+  (check: Check): Check =>
+  (value, path) =>
+    isObject(value)
+      ? Object.entries(value).flatMap(([key, item]) =>
+          check(item, getKeyPath(path, key))
+        )
+      : fail(path, `Expected an object, found a ${typeOf(value)}`)
+
+const tuple =
+  (...checks: Check[]): Check =>
+  (value, path) =>
+    Array.isArray(value) && value.length === checks.length
+      ? checks.flatMap((check, i) => check(value[i], `${path}[${i}]`))
+      : fail(path, `Expected an array of ${checks.length} items`)
+
+// Objects with the given keys, the required ones marked with a trailing !
+const shape =
+  (keys: Record<string, Check>): Check =>
+  (value, path) => {
+    if (!isObject(value))
+      return fail(path, `Expected an object, found a ${typeOf(value)}`)
+
+    const known = Object.keys(keys).map(key => key.replace(/!$/, ''))
+
+    return [
+      ...Object.entries(keys).flatMap(([key, check]) => {
+        const name = key.replace(/!$/, '')
+        if (value[name] !== undefined)
+          return check(value[name], getKeyPath(path, name))
+        return key.endsWith('!')
+          ? fail(getKeyPath(path, name), 'Missing required key')
+          : []
+      }),
+      ...Object.keys(value)
+        .filter(key => !known.includes(key))
+        .flatMap(key =>
+          fail(getKeyPath(path, key), `Unknown key${suggest(key, known)}`)
+        ),
+    ]
+  }
+
+// Named time ranges, which must end after they start and must not overlap.
+// Consecutive ranges may end and start at the same time.
+const timeRanges: Check = both(recordOf(tuple(date, date)), (value, path) => {
+  const ranges = Object.entries(value as Record<string, [string, string]>)
+    .map(([name, [start, end]]) => ({
+      name,
+      start: new Date(start).getTime(),
+      end: new Date(end).getTime(),
+    }))
+    .sort((a, b) => a.start - b.start)
+
+  return ranges.flatMap((range, i) => [
+    ...(range.end <= range.start
+      ? fail(getKeyPath(path, range.name), 'The range ends before it starts')
+      : []),
+    ...(i > 0 && range.start < ranges[i - 1]!.end
+      ? fail(
+          getKeyPath(path, range.name),
+          `The range overlaps with "${ranges[i - 1]!.name}"`
+        )
+      : []),
+  ])
+})
+
+const bandEdges: Check = both(tuple(numeric, numeric), (value, path) =>
+  Number((value as unknown[])[0]) > Number((value as unknown[])[1])
+    ? fail(path, 'The band ends before it starts')
+    : []
+)
+
+const multiplierParams = (keys: Record<string, Check> = {}): RuleParams => ({
+  check: shape({ per: oneOf(['band', 'mode', 'contest']), ...keys }),
+})
+
+const VALIDATION_RULES: Record<string, RuleParams> = {
+  default: {
+    check: shape({
+      maximumTimeDiff: number,
+      maximumFrequencyDiff: number,
+      serials: shape({ tolerance: number, credit: number, maximumGap: number }),
+      partialCredit: shape({ receivedExchange: number, sentExchange: number }),
+    }),
+  },
+  timeRange: {},
+  bands: { check: recordOf(bandEdges), required: true },
+  mode: { check: arrayOf(string), required: true },
+  contactedInContest: {},
+  uniqueContactsByTimeRange: { check: timeRanges, required: true },
+  dupes: {
+    check: shape({
+      key: oneOf(['band', 'mode', 'bandMode', 'contest']),
+      minimumGap: number,
+    }),
+  },
+  exchange: { check: regex, required: true },
+  exchangeFields: {},
+  minimumContacts: { check: number, required: true },
+}
+
+const relativeLocationPoints = {
+  sameCountry: number,
+  sameContinent: number,
+  otherContinent: number,
+}
+
+const SCORING_RULES: Record<string, RuleParams> = {
+  default: { check: number },
+  timeRange: { check: recordOf(number), required: true },
+  bonusStations: { check: recordOf(number), required: true },
+  relativeLocation: {
+    check: shape({
+      ...relativeLocationPoints,
+      modes: recordOf(shape(relativeLocationPoints)),
+    }),
+  },
+  distance: {
+    check: shape({ perKm: number, ranges: arrayOf(tuple(number, number)) }),
+  },
+  bandMode: { check: recordOf(recordOf(number)), required: true },
+  minimumContacts: { check: number, required: true },
+}
+
+const BONUS_RULES: Record<string, RuleParams> = {
+  default: { check: number },
+}
+
+const PENALTY_RULES: Record<string, RuleParams> = {
+  default: { check: number },
+  invalidationReason: { check: recordOf(number), required: true },
+}
+
+const MULTIPLIER_RULES: Record<string, RuleParams> = {
+  exchange: multiplierParams(),
+  prefix: multiplierParams(),
+  gridsquare: multiplierParams({ precision: number }),
+  field: multiplierParams({ 'field!': string }),
+  dxcc: multiplierParams({
+    by: oneOf(['prefix', 'continent', 'cqZone', 'ituZone']),
+  }),
+}
+
+const TIEBREAKER_RULES = ['default', 'validStations', 'minimumTime']
+
+// Lists of rules written as a name, or as a [name, parameters] pair
+const ruleList =
+  (rules: Record<string, RuleParams>): Check =>
+  (value, path) => {
+    if (!Array.isArray(value))
+      return fail(path, `Expected an array, found a ${typeOf(value)}`)
+
+    return value.flatMap((config, i) => {
+      const rulePath = `${path}[${i}]`
+      const [name, params] = Array.isArray(config)
+        ? [config[0], config[1]]
+        : [config, undefined]
+
+      if (Array.isArray(config) && config.length !== 2)
+        return fail(rulePath, 'Expected a rule name or a [name, params] pair')
+      if (typeof name !== 'string')
+        return fail(rulePath, `Expected a rule name, found a ${typeOf(name)}`)
+
+      const rule = rules[name]
+      if (!rule)
+        return fail(
+          rulePath,
+          `Unknown rule "${name}"${suggest(name, Object.keys(rules))}`
+        )
+
+      if (params === undefined)
+        return rule.required
+          ? fail(rulePath, `The "${name}" rule requires parameters`)
+          : []
+      if (!rule.check)
+        return fail(`${rulePath}[1]`, `The "${name}" rule takes no parameters`)
+
+      return rule.check(params, `${rulePath}[1]`)
+    })
+  }
+
+const dupePolicy: Check = (value, path) =>
+  Array.isArray(value)
+    ? tuple(oneOf(['penalty']), number)(value, path)
+    : oneOf(['ignore', 'zero', 'penalty', 'keepFirstValid'])(value, path)
+
+const CONTEST_RULES = shape({
+  'name!': string,
+  'start!': date,
+  'end!': date,
+  blacklist: arrayOf(string),
+  allowMissingParticipants: boolean,
+  nonCompeting: arrayOf(string),
+  callsignNormalization: shape({
+    stripPortablePrefixes: boolean,
+    stripPortableSuffixes: boolean,
+  }),
+  categories: recordOf(
+    shape({
+      participants: arrayOf(string),
+      match: recordOf(string),
+      rules: shape({
+        validation: ruleList(VALIDATION_RULES),
+        scoring: ruleList(SCORING_RULES),
+        bonus: ruleList(BONUS_RULES),
+      }),
+    })
+  ),
+  clubs: shape({ members: recordOf(arrayOf(string)), topMembers: number }),
+  dupePolicy,
+  exchangeFields: arrayOf(
+    shape({
+      'name!': string,
+      type: oneOf(['string', 'number', 'rst', 'gridsquare']),
+      'source!': string,
+      sentSource: string,
+      index: number,
+      pattern: regex,
+      min: number,
+      max: number,
+      optional: boolean,
+      tolerance: number,
+      crossCheck: boolean,
+    })
+  ),
+  'rules!': shape({
+    'validation!': ruleList(VALIDATION_RULES),
+    'scoring!': ruleList(SCORING_RULES),
+    'bonus!': ruleList(BONUS_RULES),
+    penalty: ruleList(PENALTY_RULES),
+    multipliers: ruleList(MULTIPLIER_RULES),
+    tiebreaker: arrayOf(oneOf(TIEBREAKER_RULES)),
+  }),
+})
+
+// Check a rules file against the shape of ContestRules, returning every
+// problem found along with its JSON path, e.g. rules.validation[2][1]
+export const validateContestRules = (rules: unknown): RulesError[] => {
+  const errors = CONTEST_RULES(rules, '')
+  if (
+    !isObject(rules) ||
+    date(rules.start, 'start').length > 0 ||
+    date(rules.end, 'end').length > 0
+  )
+    return errors
+
+  return new Date(rules.start as string) >= new Date(rules.end as string)
+    ? errors.concat(fail('end', 'The contest ends before it starts'))
+    : errors
+}
+
+const ADJUDICATIONS = shape({
+  contacts: recordOf(
+    arrayOf(
+      shape({
+        'call!': string,
+        'date!': pattern(/^\d{8}$/, 'a YYYYMMDD date'),
+        'time!': pattern(/^\d{4}(\d{2})?$/, 'an HHMM or HHMMSS time'),
+        band: string,
+        mode: string,
+        'valid!': boolean,
+        'note!': string,
+      })
+    )
+  ),
+  disqualified: recordOf(string),
+  adjustments: recordOf(arrayOf(shape({ 'points!': number, 'note!': string }))),
+})
+
+// Check an adjudications file against the shape of Adjudications, returning
+// every problem found along with its JSON path, e.g. contacts.OA4T[0].time
+export const validateAdjudications = (adjudications: unknown): RulesError[] =>
+  ADJUDICATIONS(adjudications, '')
@@ -5,8 +5,10 @@ import type {
   ScoringContext,
   RulesContext,
   ParticipantScoringDetail,
+  BandModeScorerParams,
 } from 'types'
-import { scorers } from 'lib/rules/scorers'
+import { getBandModeCell, scorers } from 'lib/rules/scorers'
+import { getParticipantRulesContext } from 'lib/precalculate'
 import { extractRule } from 'utils'
 
 export const scoreContacts = (
@@ -15,34 +17,35 @@ export const scoreContacts = (
   scoringDetails: Record<Callsign, Partial<ParticipantScoringDetail>>,
   appearanceCounts: Map<Callsign, number>
 ): Map<Callsign, ValidContact[]> => {
-  const minimumContactsRule = extractRule(
-    rulesContext.contestRules.rules.scoring,
-    'minimumContacts'
-  )
-
-  const minimumContacts =
-    minimumContactsRule && Array.isArray(minimumContactsRule)
-      ? (minimumContactsRule[1] as number)
-      : 0
-
-  const otherScoringRules = rulesContext.contestRules.rules.scoring.filter(
-    rule => {
-      const ruleName = typeof rule === 'string' ? rule : rule[0]
-      return ruleName !== 'minimumContacts'
-    }
-  )
-
-  const context: ScoringContext = {
-    validContacts,
-    timeRanges: rulesContext.timeRanges,
-  }
-
   return new Map(
     Array.from(validContacts.entries()).reduce(
       (result, [callsign, contacts]) => {
         // Missing participants are ignored
         if (contacts === null) return result
 
+        const participantRulesContext = getParticipantRulesContext(
+          rulesContext,
+          callsign
+        )
+        const scoringRules = participantRulesContext.contestRules.rules.scoring
+
+        const minimumContactsRule = extractRule(scoringRules, 'minimumContacts')
+
+        const minimumContacts =
+          minimumContactsRule && Array.isArray(minimumContactsRule)
+            ? (minimumContactsRule[1] as number)
+            : 0
+
+        const otherScoringRules = scoringRules.filter(rule => {
+          const ruleName = typeof rule === 'string' ? rule : rule[0]
+          return ruleName !== 'minimumContacts'
+        })
+
+        const context: ScoringContext = {
+          validContacts,
+          timeRanges: participantRulesContext.timeRanges,
+        }
+
         // If a minimum contacts rule is defined,
         // only participants with enough contacts are scored
         if (
@@ -72,7 +75,7 @@ export const scoreContacts = (
               }
 
               // Create a new contact object for each scoring rule, passing the updated score forward
-              return otherScoringRules.reduce(
+              const scoredContact = otherScoringRules.reduce(
                 (scoredContact, rule) => {
                   const [ruleName, params] = Array.isArray(rule)
                     ? rule
@@ -84,8 +87,12 @@ export const scoreContacts = (
                     params
                   )
 
+                  // bandMode rules also record the cell of their table used
                   if (scoredContact.score !== score) {
-                    contactScoringDetails.scoreRule = ruleName
+                    contactScoringDetails.scoreRule =
+                      ruleName === 'bandMode'
+                        ? `bandMode:${getBandModeCell(scoredContact, params as BandModeScorerParams)!.cell}`
+                        : ruleName
                     contactScoringDetails.givenScore = score
                   }
 
@@ -96,6 +103,14 @@ export const scoreContacts = (
                 },
                 { ...contact, score: 0 }
               )
+
+              // Contacts given partial credit by the cross-check only get
+              // that fraction of their score
+              if (contact.credit === undefined) return scoredContact
+
+              const score = scoredContact.score * contact.credit
+              contactScoringDetails.givenScore = score
+              return { ...scoredContact, score }
             }),
           ],
         ])
@@ -10,17 +10,36 @@ export type ValidationRule =
   | 'mode'
   | 'contactedInContest'
   | 'uniqueContactsByTimeRange'
+  | 'dupes'
   | 'exchange'
+  | 'exchangeFields'
   | 'minimumContacts'
 
+// Contacts are also invalidated by the adjudications of the contest judges
+export type InvalidationRule = ValidationRule | 'adjudication'
+
 export type ScoringRule =
   | 'default'
   | 'timeRange'
   | 'bonusStations'
+  | 'relativeLocation'
+  | 'distance'
+  | 'bandMode'
   | 'minimumContacts'
 
 export type BonusRule = 'default'
 
+export type PenaltyRule = 'default' | 'invalidationReason'
+
+export type MultiplierRule =
+  | 'exchange'
+  | 'prefix'
+  | 'gridsquare'
+  | 'field'
+  | 'dxcc'
+
+export type MultiplierScope = 'band' | 'mode' | 'contest'
+
 export type TieBreakerRule = 'default' | 'validStations' | 'minimumTime'
 
 export type ValidationRuleParam =
@@ -40,24 +59,200 @@ export type ValidationRuleConfig =
   | ValidationRule
   | [ValidationRule, ValidationRuleParam]
 
+// Contacts with the same station are dupes when they share this key
+export type DupeKey = 'band' | 'mode' | 'bandMode' | 'contest'
+
+export type DupesValidatorParams = {
+  key?: DupeKey
+  // Minutes after which the same station can be worked again
+  minimumGap?: number
+}
+
+// What happens to repeated contacts: dropped without being reported, scored
+// zero, penalized, or scored zero keeping the first copy that passes the
+// cross-check instead of the first one logged
+export type DupePolicy = 'ignore' | 'zero' | 'penalty' | 'keepFirstValid'
+
+// The penalty policy takes the points taken away for each dupe, 1 by default
+export type DupePolicyConfig = DupePolicy | ['penalty', number]
+
+// Cross-check of the serial numbers sent and received (STX and SRX fields)
+export interface SerialCheckOptions {
+  // Maximum difference between the received and the sent serial for a contact
+  // to be a copying error instead of an exchange mismatch
+  tolerance?: number
+  // Fraction of the score given to contacts with a copying error
+  credit?: number
+  // Maximum increase between consecutive sent serials before it is audited as
+  // a gap
+  maximumGap?: number
+}
+
+// Fraction of the score given to a contact when a station copied the
+// exchange of the other wrong, instead of rejecting it
+export interface PartialCreditOptions {
+  // When the logging station copied the exchange wrong
+  receivedExchange?: number
+  // When only the other station copied the exchange wrong
+  sentExchange?: number
+}
+
 export type DefaultValidatorParams = {
   maximumTimeDiff?: number
   maximumFrequencyDiff?: number
+  serials?: SerialCheckOptions
+  partialCredit?: PartialCreditOptions
+}
+
+export type InvalidationReason =
+  | 'bustedCallsign'
+  | 'notInLog'
+  | 'bandMismatch'
+  | 'modeMismatch'
+  | 'timeMismatch'
+  | 'frequencyMismatch'
+  | 'exchangeMismatch'
+  | 'dupe'
+
+// Why a valid contact only gets part of its score
+export type CreditReason =
+  | 'copyingError'
+  | 'receivedExchangeMismatch'
+  | 'sentExchangeMismatch'
+
+export interface CrossCheckResult {
+  reason: InvalidationReason | null
+  // Callsign that most likely should have been logged, for busted callsigns
+  correctCallsign?: Callsign
+  // Fraction of the score given to a valid contact, and why
+  credit?: number
+  creditReason?: CreditReason
+}
+
+export type SerialAuditIssue = 'backwards' | 'repeated' | 'gap'
+
+export interface SerialAuditEntry {
+  // Index of the contact in the contact scoring details
+  index: number
+  serial: number
+  previousSerial: number
+  issue: SerialAuditIssue
 }
 
 export type ScoringRuleParam = Record<string, any> | string | number
 
+// QSO points by where the contacted station is relative to the logging one
+export interface RelativeLocationPoints {
+  sameCountry?: number
+  sameContinent?: number
+  otherContinent?: number
+}
+
+export interface RelativeLocationScorerParams extends RelativeLocationPoints {
+  // Point tables replacing the default one for some modes, e.g. { CW: {...} }
+  modes?: Record<string, RelativeLocationPoints>
+}
+
+export interface DistanceScorerParams {
+  // Points per km, 1 by default
+  perKm?: number
+  // Distance bands as [minimum km, points] pairs, replacing perKm when given
+  ranges?: [number, number][]
+}
+
+// Points by band and mode, e.g. { "40M": { "CW": 3, "SSB": 2 }, "2M": { "*": 5 } },
+// where * matches any band or mode
+export type BandModeScorerParams = Record<string, Record<string, number>>
+
 export type ScoringRuleConfig = ScoringRule | [ScoringRule, ScoringRuleParam]
 
 export type BonusRuleParam = Record<string, any> | string | number
 
 export type BonusRuleConfig = BonusRule | [BonusRule, BonusRuleParam]
 
+export type PenaltyRuleParam = Record<string, number> | number
+
+export type PenaltyRuleConfig = PenaltyRule | [PenaltyRule, PenaltyRuleParam]
+
+export type MultiplierRuleParam = {
+  per?: MultiplierScope
+  [param: string]: any
+}
+
+export type MultiplierRuleConfig =
+  | MultiplierRule
+  | [MultiplierRule, MultiplierRuleParam]
+
 export type ContactIndex = Map<
   Callsign,
   Map<Callsign, Map<Callsign, ValidContact[]>>
 >
 
+export interface DxccEntity {
+  name: string
+  // Primary prefix of the entity, e.g. OA for Peru
+  prefix: string
+  continent: string
+  cqZone: number
+  ituZone: number
+}
+
+export interface DxccDatabase {
+  prefixes: Map<string, DxccEntity>
+  // Callsigns that do not follow the prefix of their entity or zones
+  calls: Map<Callsign, DxccEntity>
+}
+
+export interface CallsignNormalizationOptions {
+  stripPortablePrefixes?: boolean
+  stripPortableSuffixes?: boolean
+}
+
+export interface CategoryDefinition {
+  // Participants assigned to the category by the rules file
+  participants?: Callsign[]
+  // Header categories a participant must declare to be assigned to it,
+  // e.g. { OPERATOR: 'SINGLE-OP', POWER: 'QRP' }
+  match?: Record<string, string>
+  // Rules that replace the same-named rules of the contest, or are added to
+  // them, for the members of the category
+  rules?: {
+    validation?: ValidationRuleConfig[]
+    scoring?: ScoringRuleConfig[]
+    bonus?: BonusRuleConfig[]
+  }
+}
+
+export interface ClubOptions {
+  // Club members assigned by the rules file, keyed by club name
+  members?: Record<string, Callsign[]>
+  // Number of best-scoring members counted for the club score
+  topMembers?: number
+}
+
+export type ExchangeFieldType = 'string' | 'number' | 'rst' | 'gridsquare'
+
+export interface ExchangeField {
+  name: string
+  type?: ExchangeFieldType
+  // ADIF field the received value is read from, e.g. SRX, STATE or CQZ, and
+  // the one the sent value is read from, e.g. STX, MY_STATE or MY_CQ_ZONE
+  source: string
+  sentSource?: string
+  // Position of the value among the words of the source, e.g. 1 for the
+  // province in an SRX_STRING like 001 LIM
+  index?: number
+  // Validation of the received value
+  pattern?: string
+  min?: number
+  max?: number
+  optional?: boolean
+  // Difference allowed by the cross-check: between the values of number
+  // fields, or in characters for the others
+  tolerance?: number
+  crossCheck?: boolean
+}
+
 export interface ContestRules {
   name: string
   start: string
@@ -65,14 +260,38 @@ export interface ContestRules {
   blacklist?: Callsign[]
   allowMissingParticipants?: boolean
   nonCompeting?: Callsign[]
+  callsignNormalization?: CallsignNormalizationOptions
+  categories?: Record<string, CategoryDefinition>
+  clubs?: ClubOptions
+  dupePolicy?: DupePolicyConfig
+  exchangeFields?: ExchangeField[]
   rules: {
     validation: ValidationRuleConfig[]
     scoring: ScoringRuleConfig[]
     bonus: BonusRuleConfig[]
+    penalty?: PenaltyRuleConfig[]
+    multipliers?: MultiplierRuleConfig[]
     tiebreaker: TieBreakerRule[]
   }
 }
 
+// Report of a single log checked before it is submitted
+export interface LogCheckResult {
+  callsign: Callsign
+  // Score of the log when every contact passes the cross-check
+  claimedScore: number
+  scoringDetails: ParticipantScoringDetail
+  // Why the log could not be checked, e.g. a blacklisted callsign
+  error?: string
+}
+
+// Problem found in a rules or adjudications file, at a JSON path like
+// rules.validation[2][1]
+export interface RulesError {
+  path: string
+  message: string
+}
+
 export interface ValidContact {
   callsign: string
   contactedCallsign: string
@@ -86,9 +305,24 @@ export interface ValidContact {
     rstRcvd: string
     stxString: string
     srxString: string
+    // Serial numbers, when logged
+    stx?: string
+    srx?: string
+    // Values of the exchange fields declared in the rules
+    fields?: Record<string, { sent: string; received: string }>
   }
   score: number
   scoringDetailsIndex: number
+  // Entities of the station and of the contacted station, when a DXCC
+  // database is given
+  dxcc?: DxccEntity
+  contactedDxcc?: DxccEntity
+  // Distance in km between the locators of both stations, when known
+  distance?: number
+  // Fraction of the score given by the cross-check, when partial
+  credit?: number
+  // Forced to be valid by the judges, skipping the cross-check and dupe rules
+  adjudicated?: boolean
 }
 
 export type ValidContacts = Map<Callsign, ValidContact[] | null>
@@ -117,32 +351,174 @@ export interface RulesContext {
   bandRanges: Array<{ start: number; end: number; name?: string }>
   contestStart: Date
   contestEnd: Date
+  // Category of each participant, and the context of the categories
+  // overriding the contest rules
+  categories?: Map<Callsign, string>
+  categoryRulesContexts?: Record<string, RulesContext>
+  dxcc?: DxccDatabase
+  adjudications?: Adjudications
+}
+
+export interface ScoreContestOptions {
+  // Database used to find the entity of every callsign, see parseCty
+  dxcc?: DxccDatabase
+  adjudications?: Adjudications
 }
 
-export type Participant = [Callsign, SimpleAdif['records']]
+// Contact of a log found by its QSO identity, forced to be valid or invalid
+export interface ContactAdjudication {
+  call: Callsign
+  // YYYYMMDD and HHMM or HHMMSS, as in QSO_DATE and TIME_ON
+  date: string
+  time: string
+  // Only needed to tell apart contacts with the same station and time
+  band?: string
+  mode?: string
+  valid: boolean
+  note: string
+}
+
+export interface PointAdjustment {
+  // Points added to the final score, or taken away when negative
+  points: number
+  note: string
+}
+
+// Manual decisions of the contest judges, applied over the rules and keyed by
+// the callsign of the log they apply to
+export interface Adjudications {
+  contacts?: Record<Callsign, ContactAdjudication[]>
+  // Disqualified participants and the reason given
+  disqualified?: Record<Callsign, string>
+  adjustments?: Record<Callsign, PointAdjustment[]>
+}
+
+export interface ParticipantMetadata {
+  callsign?: Callsign
+  // Entry categories keyed by name, e.g. { OPERATOR: 'SINGLE-OP' } for CATEGORY-OPERATOR
+  categories?: Record<string, string>
+  club?: string
+  soapbox?: string[]
+  // Every header field as found in the log
+  fields?: Record<string, string>
+}
+
+export type Participant = [
+  Callsign,
+  SimpleAdif['records'],
+  ParticipantMetadata?,
+]
 export type ScoringResult = [Callsign, number]
 
 export type ContactScoringDetail = NonNullable<
   SimpleAdif['records']
 >[number] & {
-  invalidValidationRule: ValidationRule | null
-  scoreRule: ScoringRule | null
+  originalCall?: string
+  invalidValidationRule: InvalidationRule | null
+  invalidationReason?: InvalidationReason | null
+  correctCallsign?: Callsign
+  // Index of the contact a dupe repeats, and the policy applied to it
+  dupeOf?: number
+  dupePolicy?: DupePolicy
+  // Scoring rule that gave the score, followed by the cell used for bandMode
+  // rules, e.g. bandMode:40M/CW
+  scoreRule: ScoringRule | `${ScoringRule}:${string}` | null
   givenScore: number
+  penaltyRule?: PenaltyRule | null
+  givenPenalty?: number
+  distance?: number
+  credit?: number
+  creditReason?: CreditReason
+  // Judge decision overriding the validation rules for the contact
+  adjudication?: Pick<ContactAdjudication, 'valid' | 'note'>
+}
+
+export interface MultiplierDetail {
+  rule: MultiplierRule
+  value: string
+  // Band or mode the multiplier counts for, empty when counted once per contest
+  scope: string
+  // Contact that earned the multiplier
+  scoringDetailsIndex: number
 }
 
 export interface ParticipantScoringDetail {
+  category?: string | null
+  club?: string | null
   bonusRuleApplied: BonusRule | null
   givenBonus: number
+  givenPenalty?: number
+  givenMultiplier?: number
+  multipliers?: MultiplierDetail[]
   contacts: ContactScoringDetail[]
   hasMinimumAppearances: boolean
+  // Problems found in the sequence of sent serials
+  serialAudit?: SerialAuditEntry[]
+  claimed?: ClaimedScoreDetail
+  // Reason given by the judges for disqualifying the participant
+  disqualified?: string
+  adjustments?: PointAdjustment[]
+}
+
+// Claimed score of a log compared with its final score
+export interface ClaimedScoreDetail {
+  // Score of the log as if all of its contacts were valid
+  score: number
+  // CLAIMED-SCORE declared in the log header, when present
+  declaredScore?: number
+  contactsLost: number
+  pointsLost: number
+  // Contacts lost by the validation rule that invalidated them
+  contactsLostByRule: Partial<Record<InvalidationRule, number>>
+}
+
+export interface ClubMemberResult {
+  callsign: Callsign
+  score: number
+  // Whether the member score is part of the club score
+  counted: boolean
+}
+
+export interface ClubResult {
+  club: string
+  score: number
+  members: ClubMemberResult[]
+}
+
+export interface OdxResult {
+  callsign: Callsign
+  contactedCallsign: Callsign
+  // Distance in km of the longest valid contact of the participant
+  distance: number
 }
 
 export interface ContestResult {
   results: ScoringResult[]
   nonCompetingResults: ScoringResult[]
+  categoryResults?: Record<string, ScoringResult[]>
+  clubResults?: ClubResult[]
+  odxResults?: OdxResult[]
   scoringDetails: Record<Callsign, ParticipantScoringDetail>
   missingParticipants: [Callsign, number][]
   blacklistedCallsignsFound: [Callsign, number][]
+  // Adjudications matching no contact or participant, when given
+  unmatchedAdjudications?: RulesError[]
+}
+
+export interface UbnEntry {
+  call: Callsign
+  date: string
+  time: string
+  band: string
+  mode: string
+  correctCallsign?: Callsign
+}
+
+export interface UbnReport {
+  unique: UbnEntry[]
+  busted: UbnEntry[]
+  notInLog: UbnEntry[]
+  dupes: UbnEntry[]
 }
 
 export type ContactValidatorResult = {
@@ -0,0 +1,97 @@
+import type {
+  Callsign,
+  ContactScoringDetail,
+  ContestResult,
+  InvalidationRule,
+  UbnEntry,
+  UbnReport,
+} from 'types'
+import { getDateTimeFromContact } from 'utils'
+
+const DUPE_VALIDATION_RULES: InvalidationRule[] = [
+  'uniqueContactsByTimeRange',
+  'dupes',
+]
+
+const toUbnEntry = (contact: ContactScoringDetail): UbnEntry => {
+  const { date, time } = getDateTimeFromContact(contact)
+  return {
+    call: String(contact.call || ''),
+    date,
+    time,
+    band: String(contact.band || ''),
+    mode: String(contact.mode || ''),
+    ...(contact.correctCallsign
+      ? { correctCallsign: contact.correctCallsign }
+      : {}),
+  }
+}
+
+// Count in how many participant logs each callsign was worked
+const countLogsPerCallsign = (
+  scoringDetails: ContestResult['scoringDetails']
+): Map<Callsign, number> =>
+  Object.values(scoringDetails).reduce((counts, { contacts }) => {
+    new Set(contacts.map(contact => String(contact.call || ''))).forEach(call =>
+      counts.set(call, (counts.get(call) || 0) + 1)
+    )
+    return counts
+  }, new Map<Callsign, number>())
+
+// Build the Unique / Busted / Not-in-log report of every participant
+export const getUbnReports = (
+  result: Pick<ContestResult, 'scoringDetails'>
+): Record<Callsign, UbnReport> => {
+  const logsPerCallsign = countLogsPerCallsign(result.scoringDetails)
+
+  return Object.fromEntries(
+    Object.entries(result.scoringDetails).map(([callsign, { contacts }]) => [
+      callsign,
+      {
+        unique: contacts
+          .filter(
+            contact => logsPerCallsign.get(String(contact.call || '')) === 1
+          )
+          .map(toUbnEntry),
+        busted: contacts
+          .filter(contact => contact.invalidationReason === 'bustedCallsign')
+          .map(toUbnEntry),
+        notInLog: contacts
+          .filter(contact => contact.invalidationReason === 'notInLog')
+          .map(toUbnEntry),
+        dupes: contacts
+          .filter(
+            contact =>
+              contact.invalidValidationRule !== null &&
+              DUPE_VALIDATION_RULES.includes(contact.invalidValidationRule)
+          )
+          .map(toUbnEntry),
+      },
+    ])
+  )
+}
+
+const formatUbnSection = (title: string, entries: UbnEntry[]): string =>
+  [
+    `${title} (${entries.length}):`,
+    ...(entries.length > 0
+      ? entries.map(
+          entry =>
+            `  ${entry.date} ${entry.time.slice(0, 4)} ${entry.band.padEnd(5)} ${entry.mode.padEnd(5)} ${entry.call}` +
+            (entry.correctCallsign ? ` -> ${entry.correctCallsign}` : '')
+        )
+      : ['  None']),
+  ].join('\n')
+
+// Plain text version of a participant's UBN report, meant to be sent to them
+export const formatUbnReport = (
+  callsign: Callsign,
+  report: UbnReport
+): string =>
+  [
+    `UBN report for ${callsign}`,
+    formatUbnSection('Unique calls', report.unique),
+    formatUbnSection('Busted calls', report.busted),
+    formatUbnSection('Not in log', report.notInLog),
+    formatUbnSection('Duplicates', report.dupes),
+  ].join('\n\n') + '\n'
@@ -4,25 +4,40 @@ import type {
   ValidationContext,
   ValidContact,
   ValidationRule,
-  ContestRules,
-  ValidationRuleConfig,
   ContactIndex,
   RulesContext,
   DefaultValidatorParams,
+  DupesValidatorParams,
+  DupePolicy,
+  ContestRules,
   ContactValidator,
   ContactScoringDetail,
   ParticipantScoringDetail,
 } from 'types'
 import {
-  defaultValidator,
+  auditSentSerials,
+  crossCheckContact,
   minimumContactsValidator,
   uniqueContactsByTimeRangeValidator,
+  findTimeRangeDupeOriginal,
+  getDupeKey,
+  isDupeOf,
   validators,
 } from 'lib/rules/validators'
-import { extractRule, getDateTimeFromContact } from 'utils'
+import { getParticipantRulesContext } from 'lib/precalculate'
+import { getDxccEntity } from 'lib/dxcc'
+import { getExchangeFields } from 'lib/exchange'
+import { findContactAdjudication } from 'lib/adjudication'
+import {
+  extractRule,
+  findLocator,
+  getDateTimeFromContact,
+  getLocatorDistance,
+} from 'utils'
 
 const RULES_TO_SKIP_DURING_INITIAL_VALIDATION: ValidationRule[] = [
   'uniqueContactsByTimeRange',
+  'dupes',
   'minimumContacts',
   'default',
 ] as const
@@ -48,29 +63,26 @@ export const validateContacts: ContactValidator = (
     new Set<Callsign>()
   )
 
-  const defaultRuleConfig = extractRule(
-    contestRules.rules.validation,
-    'default'
-  )
-  const minimumContactsRule = extractRule(
-    contestRules.rules.validation,
-    'minimumContacts'
-  )
-  const uniqueContactsByTimeRangeRule = extractRule(
-    contestRules.rules.validation,
-    'uniqueContactsByTimeRange'
+  // Categories may set their own minimumContacts rule, or drop it
+  const hasMinimumContactsRule = [
+    rulesContext,
+    ...Object.values(rulesContext.categoryRulesContexts || {}),
+  ].some(context =>
+    extractRule(context.contestRules.rules.validation, 'minimumContacts')
   )
-
-  const initialValidationRules = contestRules.rules.validation.filter(rule => {
-    const ruleName = typeof rule === 'string' ? rule : rule[0]
-    return !RULES_TO_SKIP_DURING_INITIAL_VALIDATION.includes(ruleName)
-  })
+  const getMinimumContacts = (callsign: Callsign) => {
+    const rule = extractRule(
+      getParticipantRulesContext(rulesContext, callsign).contestRules.rules
+        .validation,
+      'minimumContacts'
+    )
+    return Array.isArray(rule) ? (rule[1] as number) : 0
+  }
 
   // Validate with basic rules to establish initial valid contacts
   const initialValidContacts = applyInitialValidation(
     submissions,
     rulesContext,
-    initialValidationRules,
     participantCallsigns,
     blacklistedCallsigns,
     blacklistedCallsignsFound,
@@ -79,52 +91,57 @@ export const validateContacts: ContactValidator = (
   )
 
   const contactIndex = createContactIndex(initialValidContacts)
-  const contactsAfterDefaultValidation = defaultRuleConfig
-    ? applyDefaultValidation(
-        initialValidContacts,
-        {
-          submissions,
-          contestRules,
-          participantCallsigns,
-          contactIndex,
-          blacklistedCallsigns,
-          blacklistedCallsignsFound,
-          scoringDetails,
-          missingParticipants,
-        },
-        Array.isArray(defaultRuleConfig) && defaultRuleConfig.length > 1
-          ? (defaultRuleConfig[1] as DefaultValidatorParams)
-          : {}
-      )
-    : initialValidContacts
+  const crossCheck = (contacts: Map<Callsign, ValidContact[]>) =>
+    applyDefaultValidation(contacts, {
+      submissions,
+      rulesContext,
+      participantCallsigns,
+      contactIndex,
+      blacklistedCallsigns,
+      blacklistedCallsignsFound,
+      scoringDetails,
+      missingParticipants,
+    })
 
-  const contactsAfterUniqueValidation = uniqueContactsByTimeRangeRule
-    ? applyUniqueContactsByTimeRangeValidation(
-        contactsAfterDefaultValidation,
-        rulesContext.timeRanges,
-        scoringDetails
-      )
-    : contactsAfterDefaultValidation
+  const dupePolicy = getDupePolicy(contestRules)
+  const removeDupes = (contacts: Map<Callsign, ValidContact[]>) =>
+    applyDupesValidation(
+      applyUniqueContactsByTimeRangeValidation(
+        contacts,
+        rulesContext,
+        scoringDetails,
+        dupePolicy
+      ),
+      rulesContext,
+      scoringDetails,
+      dupePolicy
+    )
+
+  // Dupes repeat the first contact that passes the cross-check with the
+  // keepFirstValid policy, and the first contact logged otherwise
+  const contactsAfterDupesValidation =
+    dupePolicy === 'keepFirstValid'
+      ? removeDupes(crossCheck(initialValidContacts))
+      : crossCheck(removeDupes(initialValidContacts))
 
   const appearanceCounts = countAppearances(
-    contactsAfterUniqueValidation,
-    (minimumContactsRule?.[1] as number | undefined) || 0,
+    contactsAfterDupesValidation,
+    getMinimumContacts,
     rulesContext,
     missingParticipants,
     scoringDetails
   )
 
-  const validContacts =
-    minimumContactsRule && Array.isArray(minimumContactsRule)
-      ? minimumContactsValidator(
-          contactsAfterUniqueValidation,
-          minimumContactsRule[1] as number,
-          rulesContext,
-          scoringDetails,
-          missingParticipants,
-          appearanceCounts
-        )
-      : contactsAfterUniqueValidation
+  const validContacts = hasMinimumContactsRule
+    ? minimumContactsValidator(
+        contactsAfterDupesValidation,
+        getMinimumContacts,
+        rulesContext,
+        scoringDetails,
+        missingParticipants,
+        appearanceCounts
+      )
+    : contactsAfterDupesValidation
 
   return {
     validContacts,
@@ -140,28 +157,54 @@ const applyDefaultValidation = (
   validContacts: Map<Callsign, ValidContact[]>,
   context: {
     submissions: Participant[]
-    contestRules: ContestRules
+    rulesContext: RulesContext
     participantCallsigns: Set<Callsign>
     contactIndex: ContactIndex
     blacklistedCallsigns: Set<Callsign>
     blacklistedCallsignsFound: Set<Callsign>
     scoringDetails: Record<Callsign, Partial<ParticipantScoringDetail>>
     missingParticipants: Set<Callsign>
-  },
-  params?: DefaultValidatorParams
+  }
 ): Map<Callsign, ValidContact[]> => {
   const result = new Map<Callsign, ValidContact[]>()
 
   for (const [callsign, contacts] of validContacts.entries()) {
+    const { contestRules } = getParticipantRulesContext(
+      context.rulesContext,
+      callsign
+    )
+    const defaultRuleConfig = extractRule(
+      contestRules.rules.validation,
+      'default'
+    )
+
+    if (!defaultRuleConfig) {
+      result.set(callsign, contacts)
+      continue
+    }
+
+    const params =
+      Array.isArray(defaultRuleConfig) && defaultRuleConfig.length > 1
+        ? (defaultRuleConfig[1] as DefaultValidatorParams)
+        : {}
+
     if (context.blacklistedCallsigns?.has(callsign)) {
       context.blacklistedCallsignsFound?.add(callsign)
       continue
     }
 
-    const validatedContacts = contacts.filter(contact => {
+    if (params.serials)
+      context.scoringDetails[callsign]!.serialAudit = auditSentSerials(
+        contacts,
+        params.serials.maximumGap ?? 10
+      )
+
+    const validatedContacts = contacts.flatMap(contact => {
+      if (contact.adjudicated) return [contact]
+
       if (context.blacklistedCallsigns?.has(contact.contactedCallsign)) {
         context.blacklistedCallsignsFound?.add(callsign)
-        return false
+        return []
       }
 
       const isMissingParticipant = !context.participantCallsigns.has(
@@ -173,23 +216,38 @@ const applyDefaultValidation = (
       // If false, exclude the contact altogether
       if (isMissingParticipant) {
         context.missingParticipants.add(contact.contactedCallsign)
-        return !!context.contestRules.allowMissingParticipants
+        return contestRules.allowMissingParticipants ? [contact] : []
       }
 
-      const isValid = defaultValidator(
-        callsign,
-        contact,
-        context.contactIndex,
-        params
-      )
+      const { reason, correctCallsign, credit, creditReason } =
+        crossCheckContact(
+          callsign,
+          contact,
+          context.contactIndex,
+          params,
+          contestRules.exchangeFields
+        )
 
-      if (!isValid) {
+      const contactDetails =
         context.scoringDetails[callsign]!.contacts![
           contact.scoringDetailsIndex
-        ]!.invalidValidationRule = 'default'
+        ]!
+
+      if (reason) {
+        contactDetails.invalidValidationRule = 'default'
+        contactDetails.invalidationReason = reason
+        if (correctCallsign) contactDetails.correctCallsign = correctCallsign
+        return []
+      }
+
+      // Contacts given partial credit keep it for scoring
+      if (credit !== undefined) {
+        contactDetails.credit = credit
+        contactDetails.creditReason = creditReason
+        return [{ ...contact, credit }]
       }
 
-      return isValid
+      return [contact]
     })
 
     result.set(callsign, validatedContacts)
@@ -234,7 +292,6 @@ const createContactIndex = (
 const applyInitialValidation = (
   submissions: Participant[],
   rulesContext: RulesContext,
-  validationRules: ValidationRuleConfig[],
   participantCallsigns: Set<Callsign>,
   blacklistedCallsigns: Set<Callsign>,
   blacklistedCallsignsFound: Set<Callsign>,
@@ -243,18 +300,6 @@ const applyInitialValidation = (
 ): Map<Callsign, ValidContact[]> => {
   const validContacts = new Map<Callsign, ValidContact[]>()
 
-  const context: ValidationContext = {
-    submissions,
-    validContacts,
-    contestRules: rulesContext.contestRules,
-    participantCallsigns,
-    timeRanges: rulesContext.timeRanges,
-    bandRanges: rulesContext.bandRanges,
-    blacklistedCallsigns,
-    contestStart: rulesContext.contestStart,
-    contestEnd: rulesContext.contestEnd,
-  }
-
   for (const [callsign, contacts] of submissions) {
     if (blacklistedCallsigns.has(callsign)) {
       blacklistedCallsignsFound?.add(callsign)
@@ -265,6 +310,29 @@ const applyInitialValidation = (
       continue
     }
 
+    const participantRulesContext = getParticipantRulesContext(
+      rulesContext,
+      callsign
+    )
+
+    const context: ValidationContext = {
+      submissions,
+      validContacts,
+      contestRules: participantRulesContext.contestRules,
+      participantCallsigns,
+      timeRanges: participantRulesContext.timeRanges,
+      bandRanges: participantRulesContext.bandRanges,
+      blacklistedCallsigns,
+      contestStart: participantRulesContext.contestStart,
+      contestEnd: participantRulesContext.contestEnd,
+    }
+
+    const validationRules =
+      participantRulesContext.contestRules.rules.validation.filter(rule => {
+        const ruleName = typeof rule === 'string' ? rule : rule[0]
+        return !RULES_TO_SKIP_DURING_INITIAL_VALIDATION.includes(ruleName)
+      })
+
     scoringDetails[callsign] = {
       ...scoringDetails[callsign],
       contacts: scoringDetails[callsign]?.contacts || [],
@@ -279,6 +347,7 @@ const applyInitialValidation = (
       const currentContactDetails = {
         ...contact,
         invalidValidationRule: null,
+        invalidationReason: null,
       } as ContactScoringDetail
 
       if (blacklistedCallsigns.has(contactedCallsign)) {
@@ -293,24 +362,44 @@ const applyInitialValidation = (
         continue
       }
 
-      const isValid = validationRules.every(rule => {
-        const [ruleName, params] =
-          typeof rule === 'string' ? [rule, undefined] : rule
-        const passesValidation = validators[ruleName](
-          callsign,
-          contact,
-          context,
-          params
-        )
-
-        if (!passesValidation) {
-          currentContactDetails.invalidValidationRule = ruleName
+      const adjudication = findContactAdjudication(
+        callsign,
+        contact,
+        rulesContext.adjudications
+      )
+      if (adjudication) {
+        currentContactDetails.adjudication = {
+          valid: adjudication.valid,
+          note: adjudication.note,
+        }
+        if (!adjudication.valid) {
+          currentContactDetails.invalidValidationRule = 'adjudication'
           currentContactDetails.givenScore = 0
           currentContactDetails.scoreRule = null
         }
+      }
 
-        return passesValidation
-      })
+      // Adjudicated contacts skip the validation rules
+      const isValid = adjudication
+        ? adjudication.valid
+        : validationRules.every(rule => {
+            const [ruleName, params] =
+              typeof rule === 'string' ? [rule, undefined] : rule
+            const passesValidation = validators[ruleName](
+              callsign,
+              contact,
+              context,
+              params
+            )
+
+            if (!passesValidation) {
+              currentContactDetails.invalidValidationRule = ruleName
+              currentContactDetails.givenScore = 0
+              currentContactDetails.scoreRule = null
+            }
+
+            return passesValidation
+          })
 
       scoringDetails[callsign].contacts = scoringDetails[
         callsign
@@ -326,25 +415,33 @@ const applyInitialValidation = (
       const stxString = String(contact.stx_string || '')
       const srxString = String(contact.srx_string || '')
 
+      const exchangeFields = context.contestRules.exchangeFields
       const exchanges = {
         rstSent,
         rstRcvd,
         stxString,
         srxString,
+        ...(contact.stx !== undefined && { stx: String(contact.stx).trim() }),
+        ...(contact.srx !== undefined && { srx: String(contact.srx).trim() }),
+        ...(exchangeFields && {
+          fields: getExchangeFields(contact, exchangeFields),
+        }),
       }
 
       const freq = String(contact.freq || '')
       const freqNum = Number(freq)
 
-      const band =
-        freq && !isNaN(freqNum) && rulesContext.bandRanges?.length > 0
-          ? rulesContext.bandRanges.find(
+      const band = (
+        freq && !isNaN(freqNum) && context.bandRanges?.length > 0
+          ? context.bandRanges.find(
               range =>
                 freqNum >= range.start && freqNum <= range.end && range.name
             )?.name || String(contact.band || '')
           : String(contact.band || '')
+      ).toLowerCase()
 
-      // Correctly set the band in the contact object
+      // Correctly set the band in the contact object, in lowercase as Cabrillo
+      // logs and the rules may name bands in either case
       contact.band = band
 
       const validContact: ValidContact = {
@@ -358,6 +455,25 @@ const applyInitialValidation = (
         exchanges,
         score: 0,
         scoringDetailsIndex: scoringDetails[callsign].contacts!.length - 1,
+        ...(adjudication && { adjudicated: true }),
+      }
+
+      // Locators are read from the contact, or else from the exchanges
+      const distance = getLocatorDistance(
+        String(contact.my_gridsquare || '') || findLocator(stxString),
+        String(contact.gridsquare || '') || findLocator(srxString)
+      )
+      if (distance !== null) {
+        validContact.distance = Math.round(distance)
+        currentContactDetails.distance = validContact.distance
+      }
+
+      if (rulesContext.dxcc) {
+        validContact.dxcc = getDxccEntity(callsign, rulesContext.dxcc)
+        validContact.contactedDxcc = getDxccEntity(
+          contactedCallsign,
+          rulesContext.dxcc
+        )
       }
 
       validContacts.get(callsign)!.push(validContact)
@@ -370,7 +486,7 @@ const applyInitialValidation = (
 // Count how many times each callsign appears as a contacted station
 const countAppearances = (
   validContactsMap: Map<Callsign, ValidContact[]>,
-  minimumAppearances: number,
+  getMinimumAppearances: (callsign: Callsign) => number,
   rulesContext: RulesContext,
   missingParticipants: Set<Callsign>,
   scoringDetails: Record<Callsign, Partial<ParticipantScoringDetail>>
@@ -391,7 +507,7 @@ const countAppearances = (
 
       if (contactedCallsign in scoringDetails) {
         scoringDetails[contactedCallsign]!.hasMinimumAppearances =
-          appearances >= minimumAppearances
+          appearances >= getMinimumAppearances(contactedCallsign)
       }
 
       // Track missing participants - stations that were contacted but didn't submit logs
@@ -406,28 +522,82 @@ const countAppearances = (
   return appearanceCounts
 }
 
+const getDupePolicy = (contestRules: ContestRules): DupePolicy => {
+  const { dupePolicy = 'keepFirstValid' } = contestRules
+  return Array.isArray(dupePolicy) ? dupePolicy[0] : dupePolicy
+}
+
+// Apply the dupe policy to a contact repeating an accepted one. Ignored dupes
+// are dropped without being marked as invalid.
+const markDupe = (
+  contactDetails: ContactScoringDetail,
+  rule: ValidationRule,
+  original: ValidContact,
+  dupePolicy: DupePolicy
+) => {
+  contactDetails.dupeOf = original.scoringDetailsIndex
+  contactDetails.dupePolicy = dupePolicy
+  contactDetails.givenScore = 0
+  contactDetails.scoreRule = null
+
+  if (dupePolicy === 'ignore') return
+
+  contactDetails.invalidValidationRule = rule
+  contactDetails.invalidationReason = 'dupe'
+}
+
 const applyUniqueContactsByTimeRangeValidation = (
   validContacts: Map<Callsign, ValidContact[]>,
-  timeRanges: Record<string, { start: Date; end: Date }> = {},
-  scoringDetails: Record<Callsign, Partial<ParticipantScoringDetail>> = {}
+  rulesContext: RulesContext,
+  scoringDetails: Record<Callsign, Partial<ParticipantScoringDetail>> = {},
+  dupePolicy: DupePolicy = 'keepFirstValid'
 ): Map<Callsign, ValidContact[]> => {
   const result = new Map<Callsign, ValidContact[]>()
   for (const [callsign, contacts] of validContacts.entries()) {
+    const { contestRules, timeRanges } = getParticipantRulesContext(
+      rulesContext,
+      callsign
+    )
+
+    if (
+      !extractRule(contestRules.rules.validation, 'uniqueContactsByTimeRange')
+    ) {
+      result.set(callsign, contacts)
+      continue
+    }
+
     result.set(callsign, [])
     for (const contact of contacts) {
-      const isValid = uniqueContactsByTimeRangeValidator(
-        callsign,
-        contact,
-        result,
-        timeRanges
-      )
+      const isValid =
+        contact.adjudicated ||
+        uniqueContactsByTimeRangeValidator(
+          callsign,
+          contact,
+          result,
+          timeRanges
+        )
 
       if (!isValid) {
         const contactDetails =
           scoringDetails[callsign]!.contacts![contact.scoringDetailsIndex]!
-        contactDetails.invalidValidationRule = 'uniqueContactsByTimeRange'
-        contactDetails.givenScore = 0
-        contactDetails.scoreRule = null
+        const original = findTimeRangeDupeOriginal(
+          contact,
+          result.get(callsign)!,
+          timeRanges
+        )
+
+        if (original) {
+          markDupe(
+            contactDetails,
+            'uniqueContactsByTimeRange',
+            original,
+            dupePolicy
+          )
+        } else {
+          contactDetails.invalidValidationRule = 'uniqueContactsByTimeRange'
+          contactDetails.givenScore = 0
+          contactDetails.scoreRule = null
+        }
         continue
       }
 
@@ -436,3 +606,54 @@ const applyUniqueContactsByTimeRangeValidation = (
   }
   return result
 }
+
+// Keep the first contact with each station and dupe key, applying the dupe
+// policy to the repeated ones
+const applyDupesValidation = (
+  validContacts: Map<Callsign, ValidContact[]>,
+  rulesContext: RulesContext,
+  scoringDetails: Record<Callsign, Partial<ParticipantScoringDetail>> = {},
+  dupePolicy: DupePolicy = 'keepFirstValid'
+): Map<Callsign, ValidContact[]> => {
+  const result = new Map<Callsign, ValidContact[]>()
+  for (const [callsign, contacts] of validContacts.entries()) {
+    const { contestRules } = getParticipantRulesContext(rulesContext, callsign)
+    const dupesRule = extractRule(contestRules.rules.validation, 'dupes')
+
+    if (!dupesRule) {
+      result.set(callsign, contacts)
+      continue
+    }
+
+    const params = Array.isArray(dupesRule)
+      ? (dupesRule[1] as DupesValidatorParams)
+      : {}
+    const latestAccepted = new Map<string, ValidContact>()
+
+    result.set(
+      callsign,
+      // Latest accepted contact of every dupe key
+      contacts.filter(contact => {
+        const dupeKey = getDupeKey(contact, params)
+        const original = latestAccepted.get(dupeKey)
+        if (
+          contact.adjudicated ||
+          !original ||
+          !isDupeOf(contact, original, params)
+        ) {
+          latestAccepted.set(dupeKey, contact)
+          return true
+        }
+
+        markDupe(
+          scoringDetails[callsign]!.contacts![contact.scoringDetailsIndex]!,
+          'dupes',
+          original,
+          dupePolicy
+        )
+        return false
+      })
+    )
+  }
+  return result
+}
@@ -34,6 +34,10 @@ export const formatDateTime = (date: Date): string =>
     .replace('T', ' ')
     .replace(/\.\d+Z$/, 'Z')
 
+// Quote a CSV field when it holds a comma, a quote or a line break
+export const formatCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
 // Helper function to safely compare frequencies with tolerance to avoid floating point precision issues
 export const areFrequenciesWithinTolerance = (
   freq1: string | number,
@@ -56,6 +60,100 @@ export const areFrequenciesWithinTolerance = (
   return diff <= toleranceKhz
 }
 
+// Levenshtein distance between two strings, used to match busted callsigns
+export const getEditDistance = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]!
+    previous[0] = i
+
+    for (let j = 1; j <= b.length; j++) {
+      const current = previous[j]!
+      previous[j] =
+        a[i - 1] === b[j - 1]
+          ? diagonal
+          : Math.min(diagonal, previous[j - 1]!, current) + 1
+      diagonal = current
+    }
+  }
+
+  return previous[b.length]!
+}
+
+const MAIDENHEAD_LOCATOR = /^[A-R]{2}\d{2}([A-X]{2}(\d{2})?)?$/
+const EARTH_RADIUS_KM = 6371
+
+const getLetterIndex = (letter: string) => letter.charCodeAt(0) - 65
+
+// Center of a Maidenhead locator of 4, 6 or 8 characters, in degrees
+export const parseLocator = (
+  locator: string
+): { latitude: number; longitude: number } | null => {
+  const value = locator.trim().toUpperCase()
+  if (!MAIDENHEAD_LOCATOR.test(value)) return null
+
+  // Field (20° x 10°) and square (2° x 1°)
+  let longitude = getLetterIndex(value[0]!) * 20 + Number(value[2]) * 2 - 180
+  let latitude = getLetterIndex(value[1]!) * 10 + Number(value[3]) - 90
+  let width = 2
+  let height = 1
+
+  // Subsquare (5' x 2.5')
+  if (value.length >= 6) {
+    width /= 24
+    height /= 24
+    longitude += getLetterIndex(value[4]!) * width
+    latitude += getLetterIndex(value[5]!) * height
+  }
+
+  // Extended square (30" x 15")
+  if (value.length === 8) {
+    width /= 10
+    height /= 10
+    longitude += Number(value[6]) * width
+    latitude += Number(value[7]) * height
+  }
+
+  return { latitude: latitude + height / 2, longitude: longitude + width / 2 }
+}
+
+// First word of an exchange that is a Maidenhead locator, e.g. FH17 in 001 FH17
+export const findLocator = (exchange: string): string =>
+  exchange
+    .trim()
+    .toUpperCase()
+    .split(/\s+/)
+    .find(word => parseLocator(word)) || ''
+
+// Great-circle distance in km between two points, using the haversine formula
+export const getGreatCircleDistance = (
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+  const deltaLatitude = toRadians(to.latitude - from.latitude)
+  const deltaLongitude = toRadians(to.longitude - from.longitude)
+  const a =
+    Math.sin(deltaLatitude / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(deltaLongitude / 2) ** 2
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a))
+}
+
+// Distance in km between the centers of two locators, null if any is invalid
+export const getLocatorDistance = (from: string, to: string): number | null => {
+  const fromPoint = parseLocator(from)
+  const toPoint = parseLocator(to)
+
+  return fromPoint && toPoint
+    ? getGreatCircleDistance(fromPoint, toPoint)
+    : null
+}
+
 export const extractRule = (
   rules: ValidationRuleConfig[] | ScoringRuleConfig[],
   name: string
@@ -64,3 +162,21 @@ export const extractRule = (
     const ruleName = typeof rule === 'string' ? rule : rule[0]
     return ruleName === name
   })
+
+// Rule list without the rules with the given names
+export const withoutRules = <T extends string | [string, unknown]>(
+  rules: T[],
+  names: string[]
+): T[] =>
+  rules.filter(
+    rule => !names.includes(typeof rule === 'string' ? rule : rule[0])
+  )
+
+// JSON path of a key of the object found at a path, e.g. rules.clubs or
+// bands["40m"]
+export const getKeyPath = (path: string, key: string): string =>
+  /^[A-Za-z_$][\w$]*$/.test(key)
+    ? path
+      ? `${path}.${key}`
+      : key
+    : `${path}[${JSON.stringify(key)}]`
@@ -133,7 +133,9 @@ ADIF Export
     expect(lines.length).toBe(5) // Header + 4 results
 
     // Verify header
-    expect(lines[0]).toBe('Rank,Callsign,Score')
+    expect(lines[0]).toBe(
+      'Rank,Callsign,Score,Claimed Score,Declared Score,QSOs Lost,Points Lost,Lost By Rule'
+    )
 
     // Parse results (skipping header)
     const results = lines
@@ -160,6 +162,139 @@ ADIF Export
     expect(oa4efjResult?.score).toBe(3) // Adjusted to 3 based on actual scoring implementation
   })
 
+  test('CLI writes one UBN report per participant', () => {
+    execSync(`${CLI_CMD} score --input "${ADIF_DIR}" --rules rules.json`, {
+      encoding: 'utf8',
+      stdio: 'ignore',
+    })
+
+    const ubnDir = join(ADIF_DIR, 'ubn')
+    for (const callsign of ['OA4T', 'OA4P', 'OA4EFJ']) {
+      expect(existsSync(join(ubnDir, `${callsign}.txt`))).toBe(true)
+    }
+
+    const report = readFileSync(join(ubnDir, 'OA4T.txt'), 'utf8')
+    expect(report).toContain('UBN report for OA4T')
+    expect(report).toContain('Not in log')
+  })
+
+  test('CLI writes the UBN reports of portable callsigns', () => {
+    const testDir = join(TEST_DIR, 'portable-test')
+    mkdirSync(testDir, { recursive: true })
+    writeFileSync(
+      join(testDir, 'OA4T.adi'),
+      oa4tAdif.replace(
+        /<CALL:4>OA4P/,
+        '<STATION_CALLSIGN:6>OA4T/P <CALL:4>OA4P'
+      )
+    )
+    writeFileSync(join(testDir, 'OA4P.adi'), oa4pAdif)
+    writeFileSync(join(testDir, 'rules.json'), JSON.stringify(rulesJson))
+
+    execSync(`${CLI_CMD} score --input "${testDir}" --rules rules.json`, {
+      encoding: 'utf8',
+      stdio: 'ignore',
+    })
+
+    const report = readFileSync(join(testDir, 'ubn', 'OA4T_P.txt'), 'utf8')
+    expect(report).toContain('UBN report for OA4T/P')
+  })
+
+  test('CLI writes one CSV per category', () => {
+    const testDir = join(TEST_DIR, 'categories-test')
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true })
+    }
+
+    writeFileSync(join(testDir, 'OA4T.adi'), oa4tAdif)
+    writeFileSync(
+      join(testDir, 'OA4P.adi'),
+      `
+ADIF Export
+<CATEGORY_POWER:3>QRP
+<EOH>
+<CALL:4>OA4T <QSO_DATE:8>20250401 <TIME_ON:6>120000 <BAND:3>20m <FREQ:6>14.000 <MODE:3>SSB <RST_SENT:2>59 <RST_RCVD:2>59 <STX_STRING:3>101 <SRX_STRING:3>001 <eor>
+`
+    )
+    writeFileSync(join(testDir, 'OA4EFJ.adi'), oa4efjAdif)
+    writeFileSync(
+      join(testDir, 'rules.json'),
+      JSON.stringify(
+        {
+          ...rulesJson,
+          categories: {
+            QRP: { match: { POWER: 'QRP' } },
+            'Single Op': { participants: ['OA4T', 'OA4EFJ'] },
+          },
+        },
+        null,
+        2
+      )
+    )
+
+    execSync(`${CLI_CMD} score --input "${testDir}" --rules rules.json`, {
+      encoding: 'utf8',
+      stdio: 'ignore',
+    })
+
+    const qrpCsv = readFileSync(join(testDir, 'results-qrp.csv'), 'utf8')
+    expect(qrpCsv.trim().split('\n')).toEqual([
+      'Rank,Callsign,Score',
+      '1,OA4P,1',
+    ])
+
+    const singleOpCsv = readFileSync(
+      join(testDir, 'results-single-op.csv'),
+      'utf8'
+    )
+    expect(
+      singleOpCsv
+        .trim()
+        .split('\n')
+        .slice(1)
+        .map(line => line.split(',').slice(0, 2).join(','))
+    ).toEqual(['1,OA4T', '2,OA4EFJ'])
+  })
+
+  test('CLI writes the club standings', () => {
+    const testDir = join(TEST_DIR, 'clubs-test')
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true })
+    }
+
+    writeFileSync(join(testDir, 'OA4T.adi'), oa4tAdif)
+    writeFileSync(
+      join(testDir, 'OA4P.adi'),
+      `
+ADIF Export
+<CLUB:11>Radio Club
+<EOH>
+<CALL:4>OA4T <QSO_DATE:8>20250401 <TIME_ON:6>120000 <BAND:3>20m <FREQ:6>14.000 <MODE:3>SSB <RST_SENT:2>59 <RST_RCVD:2>59 <STX_STRING:3>101 <SRX_STRING:3>001 <eor>
+`
+    )
+    writeFileSync(join(testDir, 'OA4EFJ.adi'), oa4efjAdif)
+    writeFileSync(
+      join(testDir, 'rules.json'),
+      JSON.stringify(
+        { ...rulesJson, clubs: { members: { 'Radio Club': ['OA4T'] } } },
+        null,
+        2
+      )
+    )
+
+    const output = execSync(
+      `${CLI_CMD} score --input "${testDir}" --rules rules.json`,
+      { encoding: 'utf8' }
+    )
+    expect(output).toContain('Club Results')
+
+    const clubsCsv = readFileSync(join(testDir, 'clubs.csv'), 'utf8')
+    const [heading, ...rows] = clubsCsv.trim().split('\n')
+    expect(heading).toBe('Rank,Club,Score,Members')
+    expect(rows.length).toBe(1)
+    expect(rows[0]).toMatch(/^1,Radio Club,\d+,OA4T OA4P$/)
+  })
+
   test('CLI handles custom output path', () => {
     const customOutputPath = join(TEST_DIR, 'custom-results.json')
 
@@ -271,6 +406,95 @@ ADIF Export
     }
   })
 
+  test('CLI reports the JSON path of every problem in the rules file', () => {
+    writeFileSync(
+      join(ADIF_DIR, 'typo-rules.json'),
+      JSON.stringify({
+        ...rulesJson,
+        rules: { ...rulesJson.rules, validation: ['timeRange', 'bandz'] },
+      })
+    )
+
+    try {
+      execSync(
+        `${CLI_CMD} score --input "${ADIF_DIR}" --rules typo-rules.json`,
+        { encoding: 'utf8', stdio: 'pipe' }
+      )
+      expect(true).toBe(false)
+    } catch (error) {
+      const stderr = String((error as { stderr: string }).stderr)
+      expect(stderr).toContain(
+        'rules.validation[1]: Unknown rule "bandz" (did you mean "bands"?)'
+      )
+    }
+  })
+
+  test('CLI reports the JSON path of every problem in the adjudications file', () => {
+    const adjudicationsPath = join(TEST_DIR, 'adjudications.json')
+    writeFileSync(
+      adjudicationsPath,
+      JSON.stringify({ contacts: { OA4T: { call: 'OA4P' } } })
+    )
+
+    try {
+      execSync(
+        `${CLI_CMD} score --input "${ADIF_DIR}" --rules rules.json --adjudications "${adjudicationsPath}"`,
+        { encoding: 'utf8', stdio: 'pipe' }
+      )
+      expect(true).toBe(false)
+    } catch (error) {
+      const stderr = String((error as { stderr: string }).stderr)
+      expect(stderr).toContain(
+        'contacts.OA4T: Expected an array, found a object'
+      )
+    }
+  })
+
+  test('CLI lints a rules file without logs', () => {
+    const output = execSync(`${CLI_CMD} lint-rules --rules "${RULES_PATH}"`, {
+      encoding: 'utf8',
+    })
+    expect(output).toContain('No problems found')
+
+    const lintRulesPath = join(TEST_DIR, 'lint-rules.json')
+    writeFileSync(
+      lintRulesPath,
+      JSON.stringify({
+        ...rulesJson,
+        rules: {
+          ...rulesJson.rules,
+          scoring: [['timeRange', { day1: 1, day3: 2 }]],
+        },
+      })
+    )
+
+    try {
+      execSync(`${CLI_CMD} lint-rules --rules "${lintRulesPath}"`, {
+        encoding: 'utf8',
+        stdio: 'pipe',
+      })
+      expect(true).toBe(false)
+    } catch (error) {
+      const stderr = String((error as { stderr: string }).stderr)
+      expect(stderr).toContain(
+        'rules.scoring[0][1].day3: No uniqueContactsByTimeRange range is named "day3"'
+      )
+    }
+  })
+
+  test('CLI checks a single log without the cross-check', () => {
+    const output = execSync(
+      `${CLI_CMD} check-log --log "${join(ADIF_DIR, 'OA4T.adi')}" --rules "${RULES_PATH}"`,
+      { encoding: 'utf8' }
+    )
+
+    expect(output).toContain('OA4T Contacts')
+    expect(output).toContain('0 of 3 contacts have problems')
+    // 1 point for the first day contact, and the bonus stations OA4EFJ and
+    // OA4O worth 3 and 5 points
+    expect(output).toContain('Claimed score: 9')
+  })
+
   test("CLI creates output directory when it doesn't exist", () => {
     const nestedOutputPath = join(TEST_DIR, 'nested', 'path', 'results.csv')
 
@@ -351,6 +575,183 @@ ADIF Export
     expect(getScoreForCallsign(results, 'GOOD2')).toBe(1)
   })
 
+  test('CLI reads the participant callsign from the log contents', () => {
+    const testDir = join(TEST_DIR, 'station-callsign-test')
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true })
+    }
+
+    writeFileSync(
+      join(testDir, 'good1_final.adi'),
+      `
+ADIF Export
+<EOH>
+<STATION_CALLSIGN:5>GOOD1 <CALL:5>GOOD2 <QSO_DATE:8>20250401 <TIME_ON:6>120000 <BAND:3>20m <FREQ:6>14.000 <MODE:3>SSB <STX_STRING:3>001 <SRX_STRING:3>101 <eor>
+`
+    )
+    writeFileSync(
+      join(testDir, 'OTHER.adi'),
+      `
+ADIF Export
+<EOH>
+<STATION_CALLSIGN:5>GOOD2 <CALL:5>GOOD1 <QSO_DATE:8>20250401 <TIME_ON:6>120000 <BAND:3>20m <FREQ:6>14.000 <MODE:3>SSB <STX_STRING:3>101 <SRX_STRING:3>001 <eor>
+`
+    )
+    writeFileSync(
+      join(testDir, 'rules.json'),
+      JSON.stringify(rulesJson, null, 2)
+    )
+
+    const output = execSync(
+      `${CLI_CMD} score --input "${testDir}" --rules rules.json 2>&1`,
+      {
+        encoding: 'utf8',
+        stdio: 'pipe',
+      }
+    )
+
+    expect(output).toContain(
+      'File name OTHER.adi does not match the log callsign GOOD2'
+    )
+
+    const results = JSON.parse(
+      readFileSync(join(testDir, 'results.json'), 'utf8')
+    ) as ContestResult
+    expect(getScoreForCallsign(results, 'GOOD1')).toBe(1)
+    expect(getScoreForCallsign(results, 'GOOD2')).toBe(1)
+  })
+
+  test('CLI rejects two logs of the same participant', () => {
+    const testDir = join(TEST_DIR, 'same-callsign-test')
+    mkdirSync(testDir, { recursive: true })
+    writeFileSync(join(testDir, 'OA4T.adi'), oa4tAdif)
+    writeFileSync(join(testDir, 'oa4t_final.adi'), oa4tAdif)
+    writeFileSync(join(testDir, 'OA4P.adi'), oa4pAdif)
+    writeFileSync(join(testDir, 'rules.json'), JSON.stringify(rulesJson))
+
+    try {
+      execSync(`${CLI_CMD} score --input "${testDir}" --rules rules.json`, {
+        encoding: 'utf8',
+        stdio: 'pipe',
+      })
+      expect(true).toBe(false) // Should not reach here
+    } catch (error: any) {
+      expect(error.status).not.toBe(0)
+      expect(error.stderr).toMatch(
+        /(OA4T\.adi and oa4t_final\.adi|oa4t_final\.adi and OA4T\.adi) are both logs of OA4T/
+      )
+    }
+    expect(existsSync(join(testDir, 'results.json'))).toBe(false)
+  })
+
+  test('CLI requires a DXCC database for the rules needing one', () => {
+    const testDir = join(TEST_DIR, 'dxcc-needed-test')
+    mkdirSync(testDir, { recursive: true })
+    writeFileSync(join(testDir, 'OA4T.adi'), oa4tAdif)
+    writeFileSync(join(testDir, 'OA4P.adi'), oa4pAdif)
+    writeFileSync(
+      join(testDir, 'rules.json'),
+      JSON.stringify({
+        ...rulesJson,
+        rules: {
+          ...rulesJson.rules,
+          scoring: [['relativeLocation', { sameCountry: 1 }]],
+        },
+      })
+    )
+
+    try {
+      execSync(`${CLI_CMD} score --input "${testDir}" --rules rules.json`, {
+        encoding: 'utf8',
+        stdio: 'pipe',
+      })
+      expect(true).toBe(false) // Should not reach here
+    } catch (error: any) {
+      expect(error.status).not.toBe(0)
+      expect(error.stderr).toContain('The rules need a DXCC database')
+      expect(error.stderr).toContain(
+        'rules.scoring[0]: relativeLocation needs a DXCC database'
+      )
+    }
+    expect(existsSync(join(testDir, 'results.json'))).toBe(false)
+  })
+
+  test('CLI scores Cabrillo logs alongside ADIF files', () => {
+    const testDir = join(TEST_DIR, 'cabrillo-test')
+    if (!existsSync(testDir)) {
+      mkdirSync(testDir, { recursive: true })
+    }
+
+    writeFileSync(
+      join(testDir, 'GOOD1.adi'),
+      `
+ADIF Export
+<EOH>
+<CALL:5>GOOD2 <QSO_DATE:8>20250401 <TIME_ON:6>120000 <BAND:3>20m <FREQ:6>14.000 <MODE:3>SSB <RST_SENT:2>59 <RST_RCVD:2>59 <STX_STRING:3>001 <SRX_STRING:3>101 <eor>
+`
+    )
+    writeFileSync(
+      join(testDir, 'good2.log'),
+      `START-OF-LOG: 3.0
+CALLSIGN: GOOD2
+QSO: 14000 PH 2025-04-01 1200 GOOD2 59 101 GOOD1 59 001
+END-OF-LOG:
+`
+    )
+    writeFileSync(
+      join(testDir, 'rules.json'),
+      JSON.stringify(rulesJson, null, 2)
+    )
+
+    const output = execSync(
+      `${CLI_CMD} score --input "${testDir}" --rules rules.json`,
+      {
+        encoding: 'utf8',
+        stdio: 'pipe',
+      }
+    )
+
+    expect(output).toContain('Found 1 ADIF files and 1 Cabrillo files')
+
+    const results = JSON.parse(
+      readFileSync(join(testDir, 'results.json'), 'utf8')
+    ) as ContestResult
+    expect(getScoreForCallsign(results, 'GOOD1')).toBe(1)
+    expect(getScoreForCallsign(results, 'GOOD2')).toBe(1)
+  })
+
+  test('CLI rejects unknown callsign sources', () => {
+    try {
+      execSync(
+        `${CLI_CMD} score --input "${ADIF_DIR}" --rules rules.json --callsign-from station_callsign,nickname`,
+        {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        }
+      )
+      expect(true).toBe(false) // Should not reach here
+    } catch (error: any) {
+      expect(error.status).not.toBe(0)
+      expect(error.stderr).toContain('Unknown callsign sources: nickname')
+    }
+  })
+
+  test('CLI rejects unknown callsign sources when checking a log', () => {
+    try {
+      execSync(
+        `${CLI_CMD} check-log --log "${join(ADIF_DIR, 'OA4T.adi')}" --rules "${RULES_PATH}" --callsign-from nickname`,
+        {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        }
+      )
+      expect(true).toBe(false) // Should not reach here
+    } catch (error: any) {
+      expect(error.status).not.toBe(0)
+      expect(error.stderr).toContain('Unknown callsign sources: nickname')
+    }
+  })
+
   test('CLI verbose output includes additional information', () => {
     // Test with verbose flag
     const output = execSync(
@@ -369,6 +770,19 @@ ADIF Export
     expect(output).toContain('Detailed results written')
   })
 
+  test('CLI help tells where each command looks for the rules file', () => {
+    // Help lines are wrapped to the width of the terminal
+    const help = (command: string) =>
+      execSync(`${CLI_CMD} ${command} --help`, { encoding: 'utf8' }).replace(
+        /\s+/g,
+        ' '
+      )
+
+    expect(help('score')).toContain('relative to the input directory')
+    expect(help('check-log')).toContain('relative to the current directory')
+    expect(help('lint-rules')).toContain('relative to the current directory')
+  })
+
   test('CLI version command returns the correct version', () => {
     // Get version from package.json
     const packageJson = JSON.parse(
@@ -0,0 +1,218 @@
+import { describe, test, expect } from 'bun:test'
+import type { SimpleAdif } from 'adif-parser-ts'
+import type { Adjudications, ContestRules } from '../../src/lib/types'
+import { scoreContest } from '../../src/lib'
+import { findContactAdjudication } from '../../src/lib/adjudication'
+
+function createContact(
+  overrides = {}
+): NonNullable<SimpleAdif['records']>[number] {
+  return {
+    call: 'OA4P',
+    qso_date: '20250401',
+    time_on: '120000',
+    band: '20m',
+    freq: '14.100',
+    mode: 'SSB',
+    ...overrides,
+  }
+}
+
+describe('Adjudications', () => {
+  const rules: ContestRules = {
+    name: 'Test Contest',
+    start: '2025-04-01T00:00:00Z',
+    end: '2025-04-01T23:59:59Z',
+    rules: {
+      validation: ['timeRange', 'dupes', ['default', { maximumTimeDiff: 5 }]],
+      scoring: [['default', 2]],
+      bonus: [],
+      tiebreaker: ['validStations'],
+    },
+  }
+
+  const submissions: [string, NonNullable<SimpleAdif['records']>][] = [
+    [
+      'OA4T',
+      [
+        createContact(),
+        createContact({ time_on: '121000' }),
+        createContact({ call: 'OA4EFJ' }),
+      ],
+    ],
+    ['OA4P', [createContact({ call: 'OA4T' })]],
+    ['OA4EFJ', [createContact({ call: 'OA4P' })]],
+  ]
+
+  test('finds contacts by their QSO identity', () => {
+    const adjudications: Adjudications = {
+      contacts: {
+        OA4T: [
+          {
+            call: 'OA4P',
+            date: '20250401',
+            time: '1200',
+            band: '20M',
+            valid: false,
+            note: 'Busted',
+          },
+        ],
+      },
+    }
+
+    expect(
+      findContactAdjudication('OA4T', createContact(), adjudications)?.note
+    ).toBe('Busted')
+    expect(
+      findContactAdjudication(
+        'OA4T',
+        createContact({ time_on: '120100' }),
+        adjudications
+      )
+    ).toBeUndefined()
+    expect(
+      findContactAdjudication(
+        'OA4T',
+        createContact({ band: '40m' }),
+        adjudications
+      )
+    ).toBeUndefined()
+    expect(
+      findContactAdjudication('OA4P', createContact(), adjudications)
+    ).toBeUndefined()
+  })
+
+  test('forces contacts to be valid or invalid, keeping the note', () => {
+    const result = scoreContest(submissions, rules, {
+      adjudications: {
+        contacts: {
+          OA4T: [
+            {
+              call: 'OA4P',
+              date: '20250401',
+              time: '1200',
+              valid: false,
+              note: 'Contact made outside the allowed segment',
+            },
+            {
+              call: 'OA4P',
+              date: '20250401',
+              time: '1210',
+              valid: true,
+              note: 'First contact removed by the judges',
+            },
+            {
+              call: 'OA4EFJ',
+              date: '20250401',
+              time: '1200',
+              valid: true,
+              note: 'Confirmed by the recording of OA4EFJ',
+            },
+          ],
+        },
+      },
+    })
+
+    const [invalid, dupe, notInLog] = result.scoringDetails.OA4T!.contacts
+    expect(invalid).toMatchObject({
+      invalidValidationRule: 'adjudication',
+      givenScore: 0,
+      adjudication: {
+        valid: false,
+        note: 'Contact made outside the allowed segment',
+      },
+    })
+    expect(dupe).toMatchObject({
+      invalidValidationRule: null,
+      givenScore: 2,
+      adjudication: { valid: true },
+    })
+    expect(notInLog).toMatchObject({
+      invalidValidationRule: null,
+      givenScore: 2,
+      adjudication: {
+        valid: true,
+        note: 'Confirmed by the recording of OA4EFJ',
+      },
+    })
+    expect(result.results).toContainEqual(['OA4T', 4])
+  })
+
+  test('disqualifies participants and adjusts their points', () => {
+    const result = scoreContest(submissions, rules, {
+      adjudications: {
+        disqualified: { oa4p: 'Unclaimed assistance' },
+        adjustments: {
+          OA4T: [
+            { points: 5, note: 'Lost log recovered' },
+            { points: -1, note: 'Late log' },
+          ],
+        },
+      },
+    })
+
+    expect(result.results).toEqual([
+      ['OA4T', 6],
+      ['OA4EFJ', 0],
+    ])
+    expect(result.scoringDetails.OA4P!.disqualified).toBe(
+      'Unclaimed assistance'
+    )
+    expect(result.scoringDetails.OA4T!.adjustments).toEqual([
+      { points: 5, note: 'Lost log recovered' },
+      { points: -1, note: 'Late log' },
+    ])
+    expect(result.scoringDetails.OA4T!.claimed?.pointsLost).toBe(4)
+    expect(result.scoringDetails.OA4P!.claimed?.pointsLost).toBe(0)
+  })
+
+  test('reports the adjudications matching nothing', () => {
+    const result = scoreContest(submissions, rules, {
+      adjudications: {
+        contacts: {
+          OA4T: [
+            {
+              call: 'OA4P',
+              date: '20250401',
+              time: '1200',
+              valid: true,
+              note: 'Confirmed',
+            },
+            {
+              call: 'OA4P',
+              date: '20250401',
+              time: '1300',
+              valid: false,
+              note: 'Wrong time',
+            },
+          ],
+          OA4X: [
+            {
+              call: 'OA4T',
+              date: '20250401',
+              time: '1200',
+              valid: true,
+              note: 'Not a participant',
+            },
+          ],
+        },
+        disqualified: {
+          OA4T: 'Unclaimed assistance',
+          OA4Y: 'Not a participant',
+        },
+      },
+    })
+
+    expect(result.unmatchedAdjudications).toEqual([
+      {
+        path: 'contacts.OA4T[1]',
+        message: 'Matches no contact in the log of OA4T',
+      },
+      { path: 'contacts.OA4X', message: 'OA4X has no log in the contest' },
+      { path: 'disqualified.OA4Y', message: 'OA4Y has no log in the contest' },
+    ])
+    expect(
+      scoreContest(submissions, rules).unmatchedAdjudications
+    ).toBeUndefined()
+  })
+})
@@ -0,0 +1,163 @@
+import { describe, test, expect } from 'bun:test'
+import type { ContestRules } from 'types'
+import { parseCabrillo } from 'lib/cabrillo'
+
+describe('Cabrillo', () => {
+  const getRules = (
+    validation: ContestRules['rules']['validation'],
+    exchangeFields?: ContestRules['exchangeFields']
+  ): ContestRules => ({
+    name: 'Test Contest',
+    start: '2025-04-01T00:00:00Z',
+    end: '2025-04-01T23:59:59Z',
+    ...(exchangeFields && { exchangeFields }),
+    rules: { validation, scoring: [], bonus: [], tiebreaker: [] },
+  })
+
+  // Signal reports logged apart from the serial or the province
+  const rstRules = getRules(
+    [],
+    [
+      { name: 'rst', type: 'rst', source: 'RST_RCVD' },
+      { name: 'exchange', source: 'SRX_STRING' },
+    ]
+  )
+
+  const log = `START-OF-LOG: 3.0
+CONTEST: TEST-CONTEST
+CALLSIGN: oa4t
+CATEGORY-OPERATOR: SINGLE-OP
+CATEGORY-POWER: low
+CLUB: Radio Club Peruano
+SOAPBOX: Great conditions
+SOAPBOX: See you next year
+QSO:  7005 CW 2025-04-01 1200 OA4T          599 001    OA4P          599 101
+QSO: 14250 PH 2025-04-01 1305 OA4T          59  002    OA4EFJ        59  LIM
+X-QSO: 14250 PH 2025-04-01 1310 OA4T        59  003    OA4X          59  ARE
+QSO:   144 FM 2025-04-01 0905 OA4T          FH17       OA4O          FH18
+END-OF-LOG:
+`
+
+  test('parseCabrillo turns QSO lines into contacts', () => {
+    const { records } = parseCabrillo(log, rstRules)
+
+    expect(records.length).toBe(3)
+    expect(records[0]).toEqual({
+      call: 'OA4P',
+      station_callsign: 'OA4T',
+      qso_date: '20250401',
+      time_on: '120000',
+      freq: '7.005',
+      band: '40m',
+      mode: 'CW',
+      rst_sent: '599',
+      rst_rcvd: '599',
+      stx_string: '001',
+      srx_string: '101',
+    })
+    expect(records[1]).toMatchObject({
+      call: 'OA4EFJ',
+      freq: '14.250',
+      band: '20m',
+      mode: 'SSB',
+      stx_string: '002',
+      srx_string: 'LIM',
+    })
+
+    // Bands above 30 MHz and exchanges without a signal report
+    expect(records[2]).toMatchObject({
+      call: 'OA4O',
+      time_on: '090500',
+      freq: '144.000',
+      band: '2m',
+      mode: 'FM',
+      rst_sent: '',
+      stx_string: 'FH17',
+      srx_string: 'FH18',
+    })
+  })
+
+  test('parseCabrillo reads bands above 30 MHz given in kHz or by designator', () => {
+    const { records } = parseCabrillo(
+      [
+        'QSO: 50125 PH 2025-04-01 1200 OA4T 59 OA4P 59',
+        'QSO: 432100 PH 2025-04-01 1210 OA4T 59 OA4P 59',
+        'QSO: 1.2G PH 2025-04-01 1220 OA4T 59 OA4P 59',
+      ].join('\n')
+    )
+
+    expect(records.map(({ freq, band }) => [freq, band])).toEqual([
+      ['50.125', '6m'],
+      ['432.100', '70cm'],
+      ['1240.000', '23cm'],
+    ])
+  })
+
+  test('parseCabrillo ignores the transmitter id of multi-transmitter logs', () => {
+    const { records } = parseCabrillo(
+      'QSO: 21010 CW 2025-04-01 1200 OA4T 599 14 OA4P 599 12 1',
+      rstRules
+    )
+
+    expect(records[0]).toMatchObject({
+      call: 'OA4P',
+      stx_string: '14',
+      srx_string: '12',
+    })
+  })
+
+  test('parseCabrillo only takes serials like 559 for signal reports when the rules expect fewer fields', () => {
+    const line = 'QSO: 14250 PH 2025-04-01 1305 OA4T 123 LIM OA4P 559 ARE'
+    const exchanges = (rules?: ContestRules) =>
+      parseCabrillo(line, rules).records.map(
+        ({ rst_sent, rst_rcvd, stx_string, srx_string }) => [
+          rst_sent,
+          rst_rcvd,
+          stx_string,
+          srx_string,
+        ]
+      )
+
+    // Serial and province
+    expect(exchanges()).toEqual([['', '', '123 LIM', '559 ARE']])
+    expect(
+      exchanges(
+        getRules(
+          [],
+          [
+            { name: 'serial', type: 'number', source: 'SRX_STRING', index: 0 },
+            { name: 'province', source: 'SRX_STRING', index: 1 },
+          ]
+        )
+      )
+    ).toEqual([['', '', '123 LIM', '559 ARE']])
+    expect(exchanges(getRules([['exchange', '^[0-9]{3} [A-Z]{3}$']]))).toEqual([
+      ['', '', '123 LIM', '559 ARE'],
+    ])
+
+    // Signal report and province
+    expect(
+      exchanges(getRules([], [{ name: 'province', source: 'SRX_STRING' }]))
+    ).toEqual([['123', '559', 'LIM', 'ARE']])
+    expect(exchanges(getRules([['exchange', '^[A-Z]{3}$']]))).toEqual([
+      ['123', '559', 'LIM', 'ARE'],
+    ])
+  })
+
+  test('parseCabrillo captures the header into the participant metadata', () => {
+    const { metadata } = parseCabrillo(log)
+
+    expect(metadata.callsign).toBe('OA4T')
+    expect(metadata.categories).toEqual({ OPERATOR: 'SINGLE-OP', POWER: 'LOW' })
+    expect(metadata.club).toBe('Radio Club Peruano')
+    expect(metadata.soapbox).toEqual(['Great conditions', 'See you next year'])
+    expect(metadata.fields!.CONTEST).toBe('TEST-CONTEST')
+    expect(metadata.fields!.SOAPBOX).toBe('Great conditions\nSee you next year')
+  })
+
+  test('parseCabrillo rejects incomplete QSO lines', () => {
+    expect(() =>
+      parseCabrillo('CALLSIGN: OA4T\nQSO: 7005 CW 2025-04-01')
+    ).toThrow('Invalid QSO line 2')
+  })
+})
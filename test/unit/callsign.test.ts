@@ -0,0 +1,59 @@
+import { describe, test, expect } from 'bun:test'
+import { getWpxPrefix, normalizeCallsign, splitCallsign } from 'lib/callsign'
+
+describe('Callsign', () => {
+  test('getWpxPrefix extracts the prefix of plain callsigns', () => {
+    expect(getWpxPrefix('OA4EFJ')).toBe('OA4')
+    expect(getWpxPrefix('K1ABC')).toBe('K1')
+    expect(getWpxPrefix('WB2XYZ')).toBe('WB2')
+    expect(getWpxPrefix('9A2AA')).toBe('9A2')
+    expect(getWpxPrefix('HG19XYZ')).toBe('HG19')
+    expect(getWpxPrefix('LY1000A')).toBe('LY1000')
+    expect(getWpxPrefix('oa4efj ')).toBe('OA4')
+    expect(getWpxPrefix('')).toBe('')
+  })
+
+  test('getWpxPrefix adds a zero to callsigns without numbers', () => {
+    expect(getWpxPrefix('XEFTJW')).toBe('XE0')
+    expect(getWpxPrefix('RAEM')).toBe('RA0')
+  })
+
+  test('getWpxPrefix uses portable designators as the prefix', () => {
+    expect(getWpxPrefix('OA4/K1ABC')).toBe('OA4')
+    expect(getWpxPrefix('K1ABC/OA4')).toBe('OA4')
+    expect(getWpxPrefix('N8BJQ/KH9')).toBe('KH9')
+    expect(getWpxPrefix('PA/K1ABC')).toBe('PA0')
+    expect(getWpxPrefix('K1ABC/4')).toBe('K4')
+    expect(getWpxPrefix('OA4/K1ABC/P')).toBe('OA4')
+  })
+
+  test('getWpxPrefix ignores operating suffixes', () => {
+    expect(getWpxPrefix('OA4EFJ/P')).toBe('OA4')
+    expect(getWpxPrefix('OA4EFJ/M')).toBe('OA4')
+    expect(getWpxPrefix('OA4EFJ/QRP')).toBe('OA4')
+    expect(getWpxPrefix('OA4EFJ/MM')).toBe('OA4')
+  })
+
+  test('splitCallsign drops empty parts and operating suffixes', () => {
+    expect(splitCallsign(' oa4/k1abc/p ')).toEqual(['OA4', 'K1ABC'])
+    expect(splitCallsign('OA4EFJ//QRP')).toEqual(['OA4EFJ'])
+  })
+
+  test('normalizeCallsign uppercases and trims callsigns', () => {
+    expect(normalizeCallsign(' oa4efj ')).toBe('OA4EFJ')
+    expect(normalizeCallsign('oa4efj/p')).toBe('OA4EFJ/P')
+    expect(normalizeCallsign('')).toBe('')
+  })
+
+  test('normalizeCallsign optionally strips portable designators', () => {
+    const stripSuffixes = { stripPortableSuffixes: true }
+    const stripPrefixes = { stripPortablePrefixes: true }
+
+    expect(normalizeCallsign('OA4EFJ/P', stripSuffixes)).toBe('OA4EFJ')
+    expect(normalizeCallsign('OA4/K1ABC/QRP', stripSuffixes)).toBe('OA4/K1ABC')
+    expect(normalizeCallsign('OA4/K1ABC/QRP', stripPrefixes)).toBe('K1ABC/QRP')
+    expect(
+      normalizeCallsign('oa4/k1abc/p', { ...stripPrefixes, ...stripSuffixes })
+    ).toBe('K1ABC')
+  })
+})
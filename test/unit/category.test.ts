@@ -0,0 +1,200 @@
+import { describe, test, expect } from 'bun:test'
+import type { SimpleAdif } from 'adif-parser-ts'
+import type { ContestRules, Participant } from '../../src/lib/types'
+import {
+  assignCategories,
+  getCategoryResults,
+  getCategoryRules,
+} from 'lib/category'
+import { scoreContest } from '../../src/lib'
+import { getScoringDetailsForCallsign } from '../utils/test-helpers'
+
+function createContact(
+  overrides = {}
+): NonNullable<SimpleAdif['records']>[number] {
+  return {
+    qso_date: '20250401',
+    time_on: '120000',
+    band: '20m',
+    freq: '14.000',
+    mode: 'SSB',
+    ...overrides,
+  }
+}
+
+describe('Categories', () => {
+  const rules: ContestRules = {
+    name: 'Category Contest',
+    start: '2025-04-01T00:00:00Z',
+    end: '2025-04-01T23:59:59Z',
+    nonCompeting: ['OA4O'],
+    categories: {
+      QRP: { participants: ['oa4p'], match: { POWER: 'QRP' } },
+      'Single Op': { match: { OPERATOR: 'single-op' } },
+    },
+    rules: {
+      validation: ['timeRange'],
+      scoring: [['default', 1]],
+      bonus: [['default', 1]],
+      tiebreaker: ['validStations'],
+    },
+  }
+
+  const submissions: Participant[] = [
+    [
+      'OA4T',
+      [
+        createContact({ call: 'OA4P' }),
+        createContact({ call: 'OA4EFJ', time_on: '121000' }),
+      ],
+      { categories: { OPERATOR: 'SINGLE-OP', POWER: 'LOW' } },
+    ],
+    [
+      'OA4P',
+      [createContact({ call: 'OA4T' })],
+      { categories: { OPERATOR: 'SINGLE-OP' } },
+    ],
+    [
+      'OA4EFJ',
+      [
+        createContact({ call: 'OA4T', time_on: '121000' }),
+        createContact({ call: 'OA4P', time_on: '122000' }),
+      ],
+      { categories: { OPERATOR: 'SINGLE-OP', POWER: 'QRP' } },
+    ],
+    ['OA4Q', [createContact({ call: 'OA4T' })]],
+    [
+      'OA4O',
+      [createContact({ call: 'OA4T' })],
+      { categories: { POWER: 'QRP' } },
+    ],
+  ]
+
+  test('assignCategories uses the rules file first and then the header', () => {
+    const categories = assignCategories(submissions, {
+      ...rules,
+      categories: {
+        ...rules.categories,
+        QRP: { participants: ['OA4P'], match: { POWER: 'QRP' } },
+      },
+    })
+
+    expect(categories.get('OA4P')).toBe('QRP')
+    expect(categories.get('OA4EFJ')).toBe('QRP')
+    expect(categories.get('OA4T')).toBe('Single Op')
+    expect(categories.has('OA4Q')).toBe(false)
+  })
+
+  test('getCategoryResults keeps the ranking order of every category', () => {
+    const categories = new Map([
+      ['OA4T', 'Single Op'],
+      ['OA4P', 'QRP'],
+      ['OA4EFJ', 'QRP'],
+    ])
+
+    expect(
+      getCategoryResults(
+        [
+          ['OA4EFJ', 3],
+          ['OA4T', 2],
+          ['OA4Q', 2],
+          ['OA4P', 1],
+        ],
+        categories,
+        rules
+      )
+    ).toEqual({
+      QRP: [
+        ['OA4EFJ', 3],
+        ['OA4P', 1],
+      ],
+      'Single Op': [['OA4T', 2]],
+    })
+  })
+
+  test('scoreContest ranks every category separately', () => {
+    const result = scoreContest(submissions, rules)
+
+    expect(result.results.map(([callsign]) => callsign)).toEqual([
+      'OA4T',
+      'OA4EFJ',
+      'OA4P',
+      'OA4Q',
+    ])
+    expect(result.categoryResults).toEqual({
+      QRP: [
+        ['OA4EFJ', 2],
+        ['OA4P', 1],
+      ],
+      'Single Op': [['OA4T', 2]],
+    })
+    expect(getScoringDetailsForCallsign(result, 'OA4P')!.category).toBe('QRP')
+    expect(getScoringDetailsForCallsign(result, 'OA4Q')!.category).toBeNull()
+  })
+
+  test('getCategoryRules replaces same-named rules and adds the others', () => {
+    const categoryRules = getCategoryRules(
+      {
+        ...rules,
+        categories: {
+          QRP: {
+            rules: {
+              validation: [['mode', ['CW']]],
+              bonus: [['default', 2]],
+            },
+          },
+        },
+      },
+      'QRP'
+    )
+
+    expect(categoryRules.rules.validation).toEqual([
+      'timeRange',
+      ['mode', ['CW']],
+    ])
+    expect(categoryRules.rules.scoring).toEqual([['default', 1]])
+    expect(categoryRules.rules.bonus).toEqual([['default', 2]])
+    expect(getCategoryRules(rules, 'Single Op')).toBe(rules)
+  })
+
+  test('scoreContest applies the category rules to its members only', () => {
+    const result = scoreContest(submissions, {
+      ...rules,
+      categories: {
+        ...rules.categories,
+        QRP: {
+          ...rules.categories!.QRP,
+          rules: { bonus: [['default', 2]] },
+        },
+      },
+    })
+
+    expect(result.categoryResults).toEqual({
+      QRP: [
+        ['OA4EFJ', 4],
+        ['OA4P', 2],
+      ],
+      'Single Op': [['OA4T', 2]],
+    })
+    expect(getScoringDetailsForCallsign(result, 'OA4P')!.givenBonus).toBe(1)
+    expect(getScoringDetailsForCallsign(result, 'OA4T')!.givenBonus).toBe(0)
+  })
+  test('scoreContest applies the minimumContacts rule of a category', () => {
+    const result = scoreContest(submissions, {
+      ...rules,
+      categories: {
+        ...rules.categories,
+        QRP: {
+          ...rules.categories!.QRP,
+          rules: { validation: [['minimumContacts', 3]] },
+        },
+      },
+    })
+
+    expect(result.results.map(([callsign]) => callsign)).toEqual([
+      'OA4T',
+      'OA4Q',
+    ])
+    expect(result.categoryResults?.['Single Op']).toEqual([['OA4T', 2]])
+  })
+})
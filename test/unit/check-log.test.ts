@@ -0,0 +1,78 @@
+import { describe, test, expect } from 'bun:test'
+import type { SimpleAdif } from 'adif-parser-ts'
+import type { ContestRules } from '../../src/lib/types'
+import { checkLog } from '../../src/lib'
+
+function createContact(
+  overrides = {}
+): NonNullable<SimpleAdif['records']>[number] {
+  return {
+    call: 'OA4P',
+    qso_date: '20250401',
+    time_on: '120000',
+    band: '20m',
+    freq: '14.100',
+    mode: 'SSB',
+    ...overrides,
+  }
+}
+
+describe('Single log check', () => {
+  const rules: ContestRules = {
+    name: 'Test Contest',
+    start: '2025-04-01T00:00:00Z',
+    end: '2025-04-01T23:59:59Z',
+    rules: {
+      validation: [
+        'timeRange',
+        ['bands', { '20m': ['14.000', '14.350'] }],
+        ['mode', ['SSB', 'CW']],
+        'contactedInContest',
+        'dupes',
+        ['default', { maximumTimeDiff: 5 }],
+        ['minimumContacts', 2],
+      ],
+      scoring: [
+        ['default', 2],
+        ['minimumContacts', 2],
+      ],
+      bonus: [['default', 1]],
+      tiebreaker: ['validStations'],
+    },
+  }
+
+  test('applies the single-log rules and gives the claimed score', () => {
+    const { callsign, claimedScore, scoringDetails } = checkLog(
+      [
+        'oa4t',
+        [
+          createContact(),
+          createContact({ call: 'OA4EFJ', time_on: '120500' }),
+          createContact({ time_on: '121000' }),
+          createContact({ call: 'OA4O', qso_date: '20250402' }),
+          createContact({ call: 'OA4Q', mode: 'FM' }),
+        ],
+      ],
+      rules
+    )
+
+    expect(callsign).toBe('OA4T')
+    expect(
+      scoringDetails.contacts.map(contact => contact.invalidValidationRule)
+    ).toEqual([null, null, 'dupes', 'timeRange', 'mode'])
+    expect(scoringDetails.contacts[2]!.invalidationReason).toBe('dupe')
+    expect(claimedScore).toBe(4)
+  })
+
+  test('gives an error when the callsign of the log is blacklisted', () => {
+    const { callsign, claimedScore, scoringDetails, error } = checkLog(
+      ['OA4T', [createContact()]],
+      { ...rules, blacklist: ['OA4T'] }
+    )
+
+    expect(callsign).toBe('OA4T')
+    expect(claimedScore).toBe(0)
+    expect(scoringDetails.contacts).toEqual([])
+    expect(error).toBe('OA4T is blacklisted in this contest')
+  })
+})
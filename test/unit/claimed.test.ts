@@ -0,0 +1,113 @@
+import { describe, test, expect } from 'bun:test'
+import type { SimpleAdif } from 'adif-parser-ts'
+import type { ContestRules } from '../../src/lib/types'
+import { scoreContest } from '../../src/lib'
+
+function createContact(
+  overrides = {}
+): NonNullable<SimpleAdif['records']>[number] {
+  return {
+    call: 'OA4P',
+    qso_date: '20250401',
+    time_on: '120000',
+    band: '20m',
+    freq: '14.100',
+    mode: 'SSB',
+    ...overrides,
+  }
+}
+
+describe('Claimed scores', () => {
+  const rules: ContestRules = {
+    name: 'Test Contest',
+    start: '2025-04-01T00:00:00Z',
+    end: '2025-04-01T23:59:59Z',
+    rules: {
+      validation: ['timeRange', 'dupes', ['default', { maximumTimeDiff: 5 }]],
+      scoring: [['default', 2]],
+      bonus: [['default', 1]],
+      tiebreaker: ['validStations'],
+    },
+  }
+
+  test('compares the claimed score of every log with its final score', () => {
+    const result = scoreContest(
+      [
+        [
+          'OA4T',
+          [
+            createContact(),
+            createContact({ time_on: '120500' }),
+            createContact({ call: 'OA4EFJ' }),
+            createContact({ call: 'OA4EFJ', qso_date: '20250402' }),
+          ],
+          { fields: { 'CLAIMED-SCORE': '1,234' } },
+        ],
+        ['OA4P', [createContact({ call: 'OA4T' })]],
+        ['OA4EFJ', [createContact({ call: 'OA4P' })]],
+      ],
+      rules
+    )
+
+    expect(result.scoringDetails.OA4T!.claimed).toEqual({
+      score: 8,
+      declaredScore: 1234,
+      contactsLost: 3,
+      pointsLost: 6,
+      contactsLostByRule: { dupes: 1, default: 1, timeRange: 1 },
+    })
+    expect(result.scoringDetails.OA4P!.claimed).toEqual({
+      score: 2,
+      contactsLost: 0,
+      pointsLost: 0,
+      contactsLostByRule: {},
+    })
+  })
+
+  test('keeps the time ranges of contests scored by time range', () => {
+    const result = scoreContest(
+      [
+        [
+          'OA4T',
+          [
+            createContact(),
+            createContact({ time_on: '130000' }),
+            createContact({ call: 'OA4EFJ', time_on: '180000' }),
+          ],
+        ],
+        [
+          'OA4P',
+          [createContact({ call: 'OA4T' }), createContact({ call: 'OA4T' })],
+        ],
+        ['OA4EFJ', [createContact({ call: 'OA4T', time_on: '180000' })]],
+      ],
+      {
+        ...rules,
+        rules: {
+          ...rules.rules,
+          validation: [
+            'timeRange',
+            [
+              'uniqueContactsByTimeRange',
+              {
+                morning: ['2025-04-01T00:00:00Z', '2025-04-01T15:59:59Z'],
+                evening: ['2025-04-01T16:00:00Z', '2025-04-01T23:59:59Z'],
+              },
+            ],
+            ['default', { maximumTimeDiff: 5 }],
+          ],
+          scoring: [['timeRange', { morning: 2, evening: 3 }]],
+        },
+      }
+    )
+
+    expect(result.results).toContainEqual(['OA4T', 5])
+    expect(result.scoringDetails.OA4T!.claimed).toMatchObject({
+      score: 7,
+      contactsLost: 1,
+      pointsLost: 2,
+    })
+    for (const details of Object.values(result.scoringDetails))
+      expect(details.claimed!.pointsLost).toBeGreaterThanOrEqual(0)
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, test, expect } from 'bun:test'
+import type { ContestRules, Participant } from '../../src/lib/types'
+import { assignClubs, getClubResults } from 'lib/club'
+import { scoreContest } from '../../src/lib'
+import { getScoringDetailsForCallsign } from '../utils/test-helpers'
+
+describe('Clubs', () => {
+  const rules: ContestRules = {
+    name: 'Club Contest',
+    start: '2025-04-01T00:00:00Z',
+    end: '2025-04-01T23:59:59Z',
+    clubs: { members: { 'Radio Club': ['oa4q'] } },
+    rules: {
+      validation: ['timeRange'],
+      scoring: [['default', 1]],
+      bonus: [['default', 1]],
+      tiebreaker: ['validStations'],
+    },
+  }
+
+  const contact = (call: string, time_on = '120000') => ({
+    call,
+    qso_date: '20250401',
+    time_on,
+    band: '20m',
+    freq: '14.000',
+    mode: 'SSB',
+  })
+
+  const submissions: Participant[] = [
+    [
+      'OA4T',
+      [contact('OA4P'), contact('OA4EFJ', '121000'), contact('OA4Q', '122000')],
+      { club: 'Radio Club ' },
+    ],
+    ['OA4P', [contact('OA4T')], { club: 'Radio Club' }],
+    [
+      'OA4EFJ',
+      [contact('OA4T', '121000'), contact('OA4P', '122000')],
+      { club: 'DX Club' },
+    ],
+    ['OA4Q', [contact('OA4T', '122000')], { club: 'DX Club' }],
+    ['OA4O', [contact('OA4T', '123000')]],
+  ]
+
+  test('assignClubs uses the rules file first and then the header', () => {
+    const clubs = assignClubs(submissions, {
+      ...rules,
+      clubs: { members: { 'Radio Club': ['OA4Q'] } },
+    })
+
+    expect(clubs.get('OA4T')).toBe('Radio Club')
+    expect(clubs.get('OA4Q')).toBe('Radio Club')
+    expect(clubs.get('OA4EFJ')).toBe('DX Club')
+    expect(clubs.has('OA4O')).toBe(false)
+  })
+
+  test('assignClubs compares club names ignoring case and spaces', () => {
+    const clubs = assignClubs(
+      [
+        ['OA4T', [], { club: 'Lima DX Club' }],
+        ['OA4P', [], { club: 'LIMA  DX CLUB' }],
+        ['OA4Q', [], { club: 'radio club' }],
+      ],
+      rules
+    )
+
+    expect(clubs.get('OA4T')).toBe('Lima DX Club')
+    expect(clubs.get('OA4P')).toBe('Lima DX Club')
+    expect(clubs.get('OA4Q')).toBe('Radio Club')
+  })
+
+  test('getClubResults counts only the top members', () => {
+    const clubs = new Map([
+      ['OA4T', 'Radio Club'],
+      ['OA4P', 'Radio Club'],
+      ['OA4Q', 'Radio Club'],
+      ['OA4EFJ', 'DX Club'],
+    ])
+
+    expect(
+      getClubResults(
+        [
+          ['OA4T', 3],
+          ['OA4EFJ', 2],
+          ['OA4P', 1],
+          ['OA4Q', 1],
+          ['OA4O', 1],
+        ],
+        clubs,
+        { ...rules, clubs: { topMembers: 2 } }
+      )
+    ).toEqual([
+      {
+        club: 'Radio Club',
+        score: 4,
+        members: [
+          { callsign: 'OA4T', score: 3, counted: true },
+          { callsign: 'OA4P', score: 1, counted: true },
+          { callsign: 'OA4Q', score: 1, counted: false },
+        ],
+      },
+      {
+        club: 'DX Club',
+        score: 2,
+        members: [{ callsign: 'OA4EFJ', score: 2, counted: true }],
+      },
+    ])
+  })
+
+  test('scoreContest adds the club standings', () => {
+    const result = scoreContest(submissions, rules)
+
+    expect(result.clubResults!.map(({ club, score }) => [club, score])).toEqual(
+      [
+        ['Radio Club', 5],
+        ['DX Club', 2],
+      ]
+    )
+    expect(getScoringDetailsForCallsign(result, 'OA4Q')!.club).toBe(
+      'Radio Club'
+    )
+    expect(getScoringDetailsForCallsign(result, 'OA4O')!.club).toBeNull()
+  })
+})
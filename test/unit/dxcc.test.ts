@@ -0,0 +1,118 @@
+import { describe, test, expect } from 'bun:test'
+import type { SimpleAdif } from 'adif-parser-ts'
+import type { ContestRules, Participant } from '../../src/lib/types'
+import { getDxccEntity, parseCty } from 'lib/dxcc'
+import { scoreContest } from '../../src/lib'
+import { getScoringDetailsForCallsign } from '../utils/test-helpers'
+
+const CTY_DAT = `Peru:                     10:  12:  SA:  -10.00:    76.00:     5.0:  OA:
+    4T,OA,OB,OC,=OA4XYZ(9)[11];
+Canary Islands:           33:  36:  AF:   28.32:    15.85:     0.0:  EA8:
+    AM8,AN8,EA8,EB8,EC8,ED8,EE8,EF8,EG8,EH8;
+Spain:                    14:  37:  EU:   40.37:     4.88:    -1.0:  EA:
+    AM,AN,AO,EA,EB,EC,ED,EE,EF,EG,EH;
+United States:            05:  08:  NA:   37.53:    91.67:     5.0:  K:
+    AA,K,N,W,
+    =AH6XX<21.0/157.0>{OC}(31)[61];
+`
+
+const CTY_CSV = `OA,Peru,136,SA,10,12,-10.00,76.00,5.0,4T OA OB OC =OA4XYZ(9)[11];
+EA8,Canary Islands,29,AF,33,36,28.32,15.85,0.0,AM8 AN8 EA8 EB8;
+EA,Spain,281,EU,14,37,40.37,4.88,-1.0,AM AN AO EA EB EC;
+`
+
+const peru = {
+  name: 'Peru',
+  prefix: 'OA',
+  continent: 'SA',
+  cqZone: 10,
+  ituZone: 12,
+}
+
+function createContact(
+  overrides = {}
+): NonNullable<SimpleAdif['records']>[number] {
+  return {
+    qso_date: '20250401',
+    time_on: '120000',
+    band: '20m',
+    freq: '14.000',
+    mode: 'SSB',
+    ...overrides,
+  }
+}
+
+describe('DXCC', () => {
+  test('parseCty reads cty.dat files', () => {
+    const database = parseCty(CTY_DAT)
+
+    expect(getDxccEntity('OA4T', database)).toEqual(peru)
+    expect(getDxccEntity('4T4T', database)).toEqual(peru)
+    expect(getDxccEntity('EA8ABC', database)?.name).toBe('Canary Islands')
+    expect(getDxccEntity('EA5ABC', database)?.name).toBe('Spain')
+    expect(getDxccEntity('AH6XX', database)).toMatchObject({
+      name: 'United States',
+      continent: 'OC',
+      cqZone: 31,
+      ituZone: 61,
+    })
+    expect(getDxccEntity('ZZ9ZZ', database)).toBeUndefined()
+  })
+
+  test('parseCty reads cty.csv files', () => {
+    const database = parseCty(CTY_CSV)
+
+    expect(getDxccEntity('OB1A', database)).toEqual(peru)
+    expect(getDxccEntity('EB8A', database)?.prefix).toBe('EA8')
+    expect(getDxccEntity('OA4XYZ', database)).toEqual({
+      ...peru,
+      cqZone: 9,
+      ituZone: 11,
+    })
+  })
+
+  test('getDxccEntity looks up portable designators', () => {
+    const database = parseCty(CTY_DAT)
+
+    expect(getDxccEntity('EA8/OA4T', database)?.name).toBe('Canary Islands')
+    expect(getDxccEntity('OA4T/EA8', database)?.name).toBe('Canary Islands')
+    expect(getDxccEntity('OA4T/P', database)?.name).toBe('Peru')
+    expect(getDxccEntity('EA8ABC/4', database)?.name).toBe('Canary Islands')
+    expect(getDxccEntity('OA4XYZ/P', database)?.cqZone).toBe(9)
+  })
+
+  test('scoreContest counts DXCC multipliers from the given database', () => {
+    const rules: ContestRules = {
+      name: 'DX Contest',
+      start: '2025-04-01T00:00:00Z',
+      end: '2025-04-01T23:59:59Z',
+      allowMissingParticipants: true,
+      rules: {
+        validation: ['timeRange'],
+        scoring: [['default', 1]],
+        bonus: [['default', 1]],
+        multipliers: [['dxcc', { by: 'continent' }], 'dxcc'],
+        tiebreaker: [],
+      },
+    }
+
+    const submissions: Participant[] = [
+      [
+        'OA4T',
+        [
+          createContact({ call: 'EA8ABC' }),
+          createContact({ call: 'EA5ABC', time_on: '121000' }),
+          createContact({ call: 'ZZ9ZZ', time_on: '122000' }),
+        ],
+      ],
+    ]
+
+    const result = scoreContest(submissions, rules, { dxcc: parseCty(CTY_DAT) })
+
+    expect(
+      getScoringDetailsForCallsign(result, 'OA4T')!.multipliers!.map(
+        ({ rule, value }) => `${rule}:${value}`
+      )
+    ).toEqual(['dxcc:AF', 'dxcc:EU', 'dxcc:EA8', 'dxcc:EA'])
+  })
+})
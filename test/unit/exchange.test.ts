@@ -0,0 +1,96 @@
+import { describe, test, expect } from 'bun:test'
+import type { ExchangeField } from '../../src/lib/types'
+import {
+  getExchangeFields,
+  isSameExchangeValue,
+  isValidExchangeValue,
+} from '../../src/lib/exchange'
+
+describe('Exchange fields', () => {
+  test('getExchangeFields reads the sent and received value of each field', () => {
+    const fields: ExchangeField[] = [
+      { name: 'rst', type: 'rst', source: 'RST_RCVD' },
+      { name: 'serial', type: 'number', source: 'SRX' },
+      { name: 'state', source: 'STATE' },
+      { name: 'power', source: 'SRX_STRING', index: 1 },
+    ]
+
+    expect(
+      getExchangeFields(
+        {
+          rst_sent: '59',
+          rst_rcvd: '57',
+          stx: '12',
+          srx: '34',
+          my_state: 'lim',
+          state: ' cus ',
+          stx_string: '001 100',
+          srx_string: '002 5',
+        },
+        fields
+      )
+    ).toEqual({
+      rst: { sent: '59', received: '57' },
+      serial: { sent: '12', received: '34' },
+      state: { sent: 'LIM', received: 'CUS' },
+      power: { sent: '100', received: '5' },
+    })
+  })
+
+  test('isValidExchangeValue checks the type, pattern and range of a value', () => {
+    const serial: ExchangeField = {
+      name: 'serial',
+      type: 'number',
+      source: 'SRX',
+      min: 1,
+      max: 9999,
+    }
+    expect(isValidExchangeValue('123', serial)).toBe(true)
+    expect(isValidExchangeValue('0', serial)).toBe(false)
+    expect(isValidExchangeValue('12A', serial)).toBe(false)
+    expect(isValidExchangeValue('', serial)).toBe(false)
+    expect(isValidExchangeValue('', { ...serial, optional: true })).toBe(true)
+
+    const rst: ExchangeField = { name: 'rst', type: 'rst', source: 'RST_RCVD' }
+    expect(isValidExchangeValue('59', rst)).toBe(true)
+    expect(isValidExchangeValue('599', rst)).toBe(true)
+    expect(isValidExchangeValue('69', rst)).toBe(false)
+
+    const grid: ExchangeField = {
+      name: 'grid',
+      type: 'gridsquare',
+      source: 'GRIDSQUARE',
+    }
+    expect(isValidExchangeValue('FH17', grid)).toBe(true)
+    expect(isValidExchangeValue('ZZ99', grid)).toBe(false)
+
+    const zone: ExchangeField = {
+      name: 'zone',
+      source: 'SRX_STRING',
+      pattern: '^[0-9]{2}$',
+    }
+    expect(isValidExchangeValue('10', zone)).toBe(true)
+    expect(isValidExchangeValue('1', zone)).toBe(false)
+  })
+
+  test('isSameExchangeValue compares values within the field tolerance', () => {
+    const serial: ExchangeField = {
+      name: 'serial',
+      type: 'number',
+      source: 'SRX',
+      tolerance: 1,
+    }
+    expect(isSameExchangeValue('123', '124', serial)).toBe(true)
+    expect(isSameExchangeValue('123', '125', serial)).toBe(false)
+    expect(isSameExchangeValue('', '125', serial)).toBe(false)
+    // Nothing to compare against when the other station sent nothing
+    expect(isSameExchangeValue('123', '', serial)).toBe(true)
+
+    const name: ExchangeField = { name: 'name', source: 'NAME', tolerance: 1 }
+    expect(isSameExchangeValue('JOHN', 'JOHM', name)).toBe(true)
+    expect(isSameExchangeValue('JOHN', 'JACK', name)).toBe(false)
+    expect(
+      isSameExchangeValue('JOHN', 'JOHM', { ...name, tolerance: undefined })
+    ).toBe(false)
+  })
+})
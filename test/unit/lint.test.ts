@@ -0,0 +1,172 @@
+import { describe, test, expect } from 'bun:test'
+import type { ContestRules } from '../../src/lib/types'
+import { findRulesNeedingDxcc, lintContestRules } from '../../src/lib/lint'
+
+describe('Rules linting', () => {
+  const rules: ContestRules = {
+    name: 'Test Contest',
+    start: '2025-04-01T00:00:00Z',
+    end: '2025-04-02T23:59:59Z',
+    rules: {
+      validation: [
+        'timeRange',
+        ['bands', { '40m': ['7.000', '7.300'], '20m': ['14.000', '14.350'] }],
+        [
+          'uniqueContactsByTimeRange',
+          {
+            day1: ['2025-04-01T00:00:00Z', '2025-04-01T23:59:59Z'],
+            day2: ['2025-04-02T00:00:00Z', '2025-04-02T23:59:59Z'],
+          },
+        ],
+        ['minimumContacts', 2],
+      ],
+      scoring: [
+        ['timeRange', { day1: 1, day2: 2 }],
+        ['minimumContacts', 2],
+      ],
+      bonus: [['default', 1]],
+      tiebreaker: ['validStations'],
+    },
+  }
+
+  test('finds no problems in consistent rules', () => {
+    expect(lintContestRules(rules)).toEqual([])
+  })
+
+  test('reports the problems found by the schema validation', () => {
+    expect(
+      lintContestRules({
+        ...rules,
+        rules: { ...rules.rules, tiebreaker: ['fastest'] },
+      })
+    ).toEqual([
+      {
+        path: 'rules.tiebreaker[0]',
+        message:
+          'Expected one of default, validStations, minimumTime, found "fastest"',
+      },
+    ])
+  })
+
+  test('reports time ranges outside the contest, gaps and unknown range scores', () => {
+    expect(
+      lintContestRules({
+        ...rules,
+        rules: {
+          ...rules.rules,
+          validation: [
+            [
+              'uniqueContactsByTimeRange',
+              {
+                day1: ['2025-04-01T00:00:00Z', '2025-04-01T11:59:59Z'],
+                day2: ['2025-04-01T12:00:00Z', '2025-04-01T18:00:00Z'],
+                day3: ['2025-04-02T00:00:00Z', '2025-04-03T00:00:00Z'],
+              },
+            ],
+            ['minimumContacts', 2],
+          ],
+          scoring: [['timeRange', { day1: 1, day4: 2 }]],
+        },
+      })
+    ).toEqual([
+      {
+        path: 'rules.validation[0][1].day3',
+        message: 'The range is outside the contest period',
+      },
+      {
+        path: 'rules.validation[0][1].day3',
+        message:
+          'Contacts between the end of "day2" and the start of "day3" are in no range',
+      },
+      {
+        path: 'rules.scoring[0][1].day4',
+        message: 'No uniqueContactsByTimeRange range is named "day4"',
+      },
+    ])
+  })
+
+  test('reports overlapping bands and minimumContacts only set in scoring', () => {
+    expect(
+      lintContestRules({
+        ...rules,
+        rules: {
+          ...rules.rules,
+          validation: [
+            ['bands', { '40m': ['7.000', '7.300'], '41m': ['7.200', '7.400'] }],
+          ],
+          scoring: [['minimumContacts', 2]],
+        },
+      })
+    ).toEqual([
+      {
+        path: 'rules.validation[0][1]["41m"]',
+        message: 'The band overlaps with "40m"',
+      },
+      {
+        path: 'rules.scoring[0]',
+        message:
+          'minimumContacts is set in scoring but not in validation, so participants appearing in too few logs are still ranked',
+      },
+    ])
+  })
+
+  test('reports the problems of category overrides at their path', () => {
+    expect(
+      lintContestRules({
+        ...rules,
+        categories: {
+          QRP: {
+            rules: {
+              validation: [
+                [
+                  'bands',
+                  { '40m': ['7.000', '7.300'], '41m': ['7.200', '7.400'] },
+                ],
+              ],
+              scoring: [['timeRange', { day1: 2, day3: 3 }]],
+            },
+          },
+          'Single Op': { match: { OPERATOR: 'SINGLE-OP' } },
+        },
+      })
+    ).toEqual([
+      {
+        path: 'categories.QRP.rules.scoring[0][1].day3',
+        message: 'No uniqueContactsByTimeRange range is named "day3"',
+      },
+      {
+        path: 'categories.QRP.rules.validation[0][1]["41m"]',
+        message: 'The band overlaps with "40m"',
+      },
+    ])
+  })
+
+  test('finds the rules needing a DXCC database', () => {
+    expect(findRulesNeedingDxcc(rules)).toEqual([])
+    expect(
+      findRulesNeedingDxcc({
+        ...rules,
+        rules: { ...rules.rules, multipliers: [['dxcc', { by: 'cqZone' }]] },
+        categories: {
+          QRP: {
+            rules: {
+              scoring: [
+                ['timeRange', { day1: 2, day2: 3 }],
+                ['relativeLocation', { sameCountry: 1, otherContinent: 3 }],
+              ],
+            },
+          },
+        },
+      })
+    ).toEqual([
+      {
+        path: 'categories.QRP.rules.scoring[1]',
+        message: 'relativeLocation needs a DXCC database',
+      },
+      {
+        path: 'rules.multipliers[0]',
+        message: 'dxcc multipliers need a DXCC database',
+      },
+    ])
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, test, expect } from 'bun:test'
+import type { SimpleAdif } from 'adif-parser-ts'
+import { resolveStationCallsign } from 'cli/logs'
+
+describe('Log files', () => {
+  const adif: SimpleAdif = {
+    header: { text: 'Export', station_callsign: 'OA4HDR' },
+    records: [
+      { call: 'OA4P', station_callsign: 'oa4efj', operator: 'OA4T' },
+      { call: 'OA4O', station_callsign: 'OA4EFJ', operator: 'OA4T' },
+    ],
+  }
+
+  test('resolveStationCallsign prefers the record station callsign', () => {
+    expect(resolveStationCallsign('oa4efj_final.adi', adif)).toEqual({
+      callsign: 'OA4EFJ',
+      source: 'station_callsign',
+      warnings: [],
+    })
+  })
+
+  test('resolveStationCallsign follows the given precedence', () => {
+    expect(
+      resolveStationCallsign('OA4T.adi', adif, ['operator']).callsign
+    ).toBe('OA4T')
+    expect(
+      resolveStationCallsign('OA4HDR.adi', adif, ['header']).callsign
+    ).toBe('OA4HDR')
+    expect(
+      resolveStationCallsign('oa4efj_final.adi', adif, ['filename'])
+    ).toEqual({ callsign: 'OA4EFJ', source: 'filename', warnings: [] })
+  })
+
+  test('resolveStationCallsign falls back to the file name', () => {
+    const resolved = resolveStationCallsign('oa4efj_final.adi', {
+      records: [{ call: 'OA4P' }],
+    })
+
+    expect(resolved.callsign).toBe('OA4EFJ')
+    expect(resolved.source).toBe('filename')
+  })
+
+  test('resolveStationCallsign warns about mixed and mismatched callsigns', () => {
+    const { callsign, warnings } = resolveStationCallsign('OA4T.adi', {
+      records: [
+        { call: 'OA4P', station_callsign: 'OA4EFJ' },
+        { call: 'OA4O', station_callsign: 'OA4EFJ' },
+        { call: 'OA4Q', station_callsign: 'OA4X' },
+      ],
+    })
+
+    expect(callsign).toBe('OA4EFJ')
+    expect(warnings).toEqual([
+      'Log mixes several station callsigns: OA4EFJ, OA4X',
+      'File name OA4T.adi does not match the log callsign OA4EFJ',
+    ])
+  })
+})
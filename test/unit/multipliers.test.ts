@@ -0,0 +1,171 @@
+import { describe, test, expect } from 'bun:test'
+import type { SimpleAdif } from 'adif-parser-ts'
+import type {
+  ContestRules,
+  Participant,
+  ValidContact,
+} from '../../src/lib/types'
+import { multipliers } from 'lib/rules/multipliers'
+import { scoreContest } from '../../src/lib'
+import {
+  getScoreForCallsign,
+  getScoringDetailsForCallsign,
+} from '../utils/test-helpers'
+
+function createContact(
+  overrides = {}
+): NonNullable<SimpleAdif['records']>[number] {
+  return {
+    qso_date: '20250401',
+    time_on: '120000',
+    band: '20m',
+    freq: '14.000',
+    mode: 'SSB',
+    ...overrides,
+  }
+}
+
+function createValidContact(srxString = ''): ValidContact {
+  return {
+    callsign: 'OA4T',
+    contactedCallsign: 'OA4P',
+    date: '20250401',
+    time: '120000',
+    freq: '14.000',
+    band: '20m',
+    mode: 'SSB',
+    exchanges: { rstSent: '', rstRcvd: '', stxString: '', srxString },
+    score: 1,
+    scoringDetailsIndex: 0,
+  }
+}
+
+describe('Multipliers', () => {
+  test('exchange multiplier uses the received exchange', () => {
+    expect(multipliers.exchange(createValidContact(' lim '), {})).toBe('LIM')
+    expect(multipliers.exchange(createValidContact(''), {})).toBeNull()
+  })
+
+  test('prefix multiplier uses the WPX prefix of the contacted station', () => {
+    expect(
+      multipliers.prefix({
+        ...createValidContact(),
+        contactedCallsign: 'OA4P/P',
+      })
+    ).toBe('OA4')
+  })
+
+  test('gridsquare multiplier truncates the locator', () => {
+    const contact = createValidContact()
+    const record = { gridsquare: 'fh17mw' }
+
+    expect(multipliers.gridsquare(contact, record)).toBe('FH17')
+    expect(multipliers.gridsquare(contact, record, { precision: 2 })).toBe('FH')
+    expect(multipliers.gridsquare(contact, {})).toBeNull()
+  })
+
+  test('field multiplier reads any ADIF field', () => {
+    const contact = createValidContact()
+
+    expect(
+      multipliers.field(contact, { state: 'lim' }, { field: 'STATE' })
+    ).toBe('LIM')
+    expect(multipliers.field(contact, {}, { field: 'state' })).toBeNull()
+  })
+
+  test('dxcc multiplier uses the entity of the contacted station', () => {
+    const contact = {
+      ...createValidContact(),
+      contactedDxcc: {
+        name: 'Peru',
+        prefix: 'OA',
+        continent: 'SA',
+        cqZone: 10,
+        ituZone: 12,
+      },
+    }
+
+    expect(multipliers.dxcc(contact, {})).toBe('OA')
+    expect(multipliers.dxcc(contact, {}, { by: 'continent' })).toBe('SA')
+    expect(multipliers.dxcc(contact, {}, { by: 'cqZone' })).toBe('10')
+    expect(multipliers.dxcc(contact, {}, { by: 'ituZone' })).toBe('12')
+    expect(multipliers.dxcc(createValidContact(), {})).toBeNull()
+  })
+
+  test('scoreContest multiplies QSO points by the multipliers worked', () => {
+    const rules: ContestRules = {
+      name: 'Multiplier Contest',
+      start: '2025-04-01T00:00:00Z',
+      end: '2025-04-01T23:59:59Z',
+      rules: {
+        validation: ['timeRange'],
+        scoring: [['default', 2]],
+        bonus: [['default', 1]],
+        multipliers: [
+          ['exchange', { per: 'band' }],
+          ['field', { field: 'state' }],
+        ],
+        tiebreaker: [],
+      },
+    }
+
+    const submissions: Participant[] = [
+      [
+        'OA4T',
+        [
+          createContact({ call: 'OA4P', srx_string: 'LIM', state: 'LIM' }),
+          createContact({ call: 'OA4Q', srx_string: 'LIM', state: 'LIM' }),
+          createContact({
+            call: 'OA4P',
+            band: '40m',
+            srx_string: 'LIM',
+            state: 'LIM',
+          }),
+          createContact({ call: 'OA6Q', srx_string: 'ARE', state: 'ARE' }),
+        ],
+      ],
+      ['OA4P', [createContact({ call: 'OA4T' })]],
+    ]
+
+    const result = scoreContest(submissions, rules)
+
+    // 8 QSO points x (LIM/20m, LIM/40m, ARE/20m + LIM, ARE)
+    expect(getScoreForCallsign(result, 'OA4T')).toBe(40)
+    // No exchange nor state logged, so no multipliers
+    expect(getScoreForCallsign(result, 'OA4P')).toBe(0)
+
+    const details = getScoringDetailsForCallsign(result, 'OA4T')!
+    expect(details.givenMultiplier).toBe(5)
+    expect(details.multipliers).toEqual([
+      { rule: 'exchange', value: 'LIM', scope: '20m', scoringDetailsIndex: 0 },
+      { rule: 'exchange', value: 'LIM', scope: '40m', scoringDetailsIndex: 2 },
+      { rule: 'exchange', value: 'ARE', scope: '20m', scoringDetailsIndex: 3 },
+      { rule: 'field', value: 'LIM', scope: '', scoringDetailsIndex: 0 },
+      { rule: 'field', value: 'ARE', scope: '', scoringDetailsIndex: 3 },
+    ])
+  })
+
+  test('scoreContest keeps the plain sum when no multipliers are defined', () => {
+    const rules: ContestRules = {
+      name: 'Plain Contest',
+      start: '2025-04-01T00:00:00Z',
+      end: '2025-04-01T23:59:59Z',
+      rules: {
+        validation: ['timeRange'],
+        scoring: [['default', 2]],
+        bonus: [['default', 1]],
+        tiebreaker: [],
+      },
+    }
+
+    const result = scoreContest(
+      [['OA4T', [createContact({ call: 'OA4P', srx_string: 'LIM' })]]],
+      rules
+    )
+
+    expect(getScoreForCallsign(result, 'OA4T')).toBe(2)
+    expect(
+      getScoringDetailsForCallsign(result, 'OA4T')!.multipliers
+    ).toBeUndefined()
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, test, expect } from 'bun:test'
+import type { SimpleAdif } from 'adif-parser-ts'
+import type { ContestRules, Participant } from '../../src/lib/types'
+import { normalizeSubmissions, normalizeContestRules } from 'lib/normalizer'
+import { scoreContest } from '../../src/lib'
+import {
+  getScoreForCallsign,
+  getScoringDetailsForCallsign,
+} from '../utils/test-helpers'
+
+function createContact(
+  overrides = {}
+): NonNullable<SimpleAdif['records']>[number] {
+  return {
+    qso_date: '20250401',
+    time_on: '120000',
+    band: '20m',
+    freq: '14.000',
+    mode: 'SSB',
+    ...overrides,
+  }
+}
+
+describe('Normalizer', () => {
+  const rules: ContestRules = {
+    name: 'Normalized Contest',
+    start: '2025-04-01T00:00:00Z',
+    end: '2025-04-01T23:59:59Z',
+    blacklist: ['oa4bad'],
+    nonCompeting: ['oa4o/p'],
+    callsignNormalization: { stripPortableSuffixes: true },
+    rules: {
+      validation: ['timeRange', ['default', { maximumTimeDiff: 5 }]],
+      scoring: [['default', 1]],
+      bonus: [['default', 1]],
+      tiebreaker: [],
+    },
+  }
+
+  test('normalizeSubmissions normalizes submissions and contacted callsigns', () => {
+    const [[callsign, contacts]] = normalizeSubmissions(
+      [
+        [
+          'oa4t/p',
+          [createContact({ call: 'oa4p ' }), createContact({ call: 'OA4P' })],
+        ],
+      ],
+      rules
+    ) as [Participant]
+
+    expect(callsign).toBe('OA4T')
+    expect(contacts![0]!.call).toBe('OA4P')
+    expect(contacts![0]!.originalCall).toBe('oa4p ')
+    expect(contacts![1]!.originalCall).toBeUndefined()
+  })
+
+  test('normalizeContestRules normalizes blacklist and nonCompeting', () => {
+    const normalizedRules = normalizeContestRules(rules)
+
+    expect(normalizedRules.blacklist).toEqual(['OA4BAD'])
+    expect(normalizedRules.nonCompeting).toEqual(['OA4O'])
+    expect(
+      normalizeContestRules({ ...rules, blacklist: undefined }).blacklist
+    ).toBeUndefined()
+  })
+
+  test('scoreContest matches contacts regardless of callsign formatting', () => {
+    const submissions: Participant[] = [
+      [
+        'OA4T',
+        [
+          createContact({ call: 'oa4p/p' }),
+          createContact({ call: 'OA4O', time_on: '121000' }),
+          createContact({ call: 'OA4BAD/M', time_on: '122000' }),
+        ],
+      ],
+      ['oa4p', [createContact({ call: 'OA4T ' })]],
+      ['OA4O/P', [createContact({ call: 'OA4T', time_on: '121000' })]],
+      ['OA4BAD', [createContact({ call: 'OA4T', time_on: '122000' })]],
+    ]
+
+    const result = scoreContest(submissions, rules)
+
+    expect(getScoreForCallsign(result, 'OA4T')).toBe(2)
+    expect(getScoreForCallsign(result, 'OA4P')).toBe(1)
+    expect(result.nonCompetingResults).toEqual([['OA4O', 1]])
+    expect(result.blacklistedCallsignsFound).toEqual([['OA4BAD', 2]])
+
+    const [contact] = getScoringDetailsForCallsign(result, 'OA4T')!.contacts
+    expect(contact!.call).toBe('OA4P')
+    expect(contact!.originalCall).toBe('oa4p/p')
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, test, expect } from 'bun:test'
+import type { SimpleAdif } from 'adif-parser-ts'
+import type { ContestRules, Participant } from '../../src/lib/types'
+import { scoreContest } from '../../src/lib'
+import {
+  getScoreForCallsign,
+  getScoringDetailsForCallsign,
+} from '../utils/test-helpers'
+
+function createContact(
+  overrides = {}
+): NonNullable<SimpleAdif['records']>[number] {
+  return {
+    qso_date: '20250401',
+    time_on: '120000',
+    band: '2m',
+    freq: '144.300',
+    mode: 'SSB',
+    ...overrides,
+  }
+}
+
+describe('Distance scoring', () => {
+  const rules: ContestRules = {
+    name: 'VHF Contest',
+    start: '2025-04-01T00:00:00Z',
+    end: '2025-04-01T23:59:59Z',
+    rules: {
+      validation: ['timeRange'],
+      scoring: ['distance'],
+      bonus: [['default', 1]],
+      tiebreaker: [],
+    },
+  }
+
+  const submissions: Participant[] = [
+    [
+      'OA4T',
+      [
+        createContact({
+          call: 'OA4P',
+          my_gridsquare: 'FH17',
+          gridsquare: 'FH18',
+        }),
+        createContact({
+          call: 'OA4EFJ',
+          time_on: '121000',
+          stx_string: '001 FH17',
+          srx_string: '001 FH19',
+        }),
+      ],
+    ],
+    [
+      'OA4P',
+      [
+        createContact({
+          call: 'OA4T',
+          my_gridsquare: 'FH18',
+          gridsquare: 'FH17',
+        }),
+      ],
+    ],
+    [
+      'OA4EFJ',
+      [
+        createContact({
+          call: 'OA4T',
+          time_on: '121000',
+          stx_string: '001 FH19',
+          srx_string: '001 FH17',
+        }),
+      ],
+    ],
+  ]
+
+  test('scoreContest scores the km between the locators of both stations', () => {
+    const result = scoreContest(submissions, rules)
+
+    expect(getScoreForCallsign(result, 'OA4T')).toBe(111 + 222)
+    expect(getScoreForCallsign(result, 'OA4P')).toBe(111)
+    expect(
+      getScoringDetailsForCallsign(result, 'OA4T')!.contacts.map(
+        contact => contact.distance
+      )
+    ).toEqual([111, 222])
+  })
+
+  test('scoreContest ranks the longest contact of every participant', () => {
+    const result = scoreContest(submissions, rules)
+
+    expect(result.odxResults).toEqual([
+      { callsign: 'OA4T', contactedCallsign: 'OA4EFJ', distance: 222 },
+      { callsign: 'OA4EFJ', contactedCallsign: 'OA4T', distance: 222 },
+      { callsign: 'OA4P', contactedCallsign: 'OA4T', distance: 111 },
+    ])
+  })
+})
@@ -0,0 +1,160 @@
+import { describe, test, expect } from 'bun:test'
+import type { SimpleAdif } from 'adif-parser-ts'
+import type {
+  ContactScoringDetail,
+  ContestRules,
+  Participant,
+} from '../../src/lib/types'
+import { penalizers } from 'lib/rules/penalizers'
+import { scoreContest } from '../../src/lib'
+import {
+  getScoreForCallsign,
+  getScoringDetailsForCallsign,
+} from '../utils/test-helpers'
+
+function createContact(
+  overrides = {}
+): NonNullable<SimpleAdif['records']>[number] {
+  return {
+    qso_date: '20250401',
+    time_on: '120000',
+    band: '20m',
+    freq: '14.000',
+    mode: 'SSB',
+    ...overrides,
+  }
+}
+
+describe('Penalizers', () => {
+  const invalidContact = {
+    call: 'OA4P',
+    invalidValidationRule: 'default',
+    invalidationReason: 'notInLog',
+    scoreRule: null,
+    givenScore: 0,
+  } as unknown as ContactScoringDetail
+
+  test('default penalizer takes a fixed amount of points', () => {
+    expect(penalizers.default(invalidContact, 0)).toBe(1)
+    expect(penalizers.default(invalidContact, 0, 2)).toBe(2)
+  })
+
+  test('invalidationReason penalizer takes points based on the reason', () => {
+    const params = { notInLog: 3, bustedCallsign: 1 }
+
+    expect(penalizers.invalidationReason(invalidContact, 0, params)).toBe(3)
+    expect(
+      penalizers.invalidationReason(
+        { ...invalidContact, invalidationReason: 'bustedCallsign' },
+        0,
+        params
+      )
+    ).toBe(1)
+
+    // Reasons without a configured penalty keep the previous one
+    expect(
+      penalizers.invalidationReason(
+        { ...invalidContact, invalidationReason: 'timeMismatch' },
+        2,
+        params
+      )
+    ).toBe(2)
+    expect(
+      penalizers.invalidationReason(
+        { ...invalidContact, invalidationReason: null },
+        0,
+        params
+      )
+    ).toBe(0)
+  })
+
+  test('scoreContest subtracts penalties before applying the bonus', () => {
+    const rules: ContestRules = {
+      name: 'Penalty Contest',
+      start: '2025-04-01T00:00:00Z',
+      end: '2025-04-01T23:59:59Z',
+      rules: {
+        validation: ['timeRange', ['default', { maximumTimeDiff: 5 }]],
+        scoring: [['default', 5]],
+        bonus: [['default', 2]],
+        penalty: [
+          ['default', 1],
+          ['invalidationReason', { notInLog: 3 }],
+        ],
+        tiebreaker: [],
+      },
+    }
+
+    const submissions: Participant[] = [
+      [
+        'OA4T',
+        [
+          createContact({ call: 'OA4P' }),
+          createContact({ call: 'OA4EFJ', time_on: '121000' }),
+          createContact({ call: 'OA4P', qso_date: '20250402' }),
+        ],
+      ],
+      [
+        'OA4P',
+        [
+          createContact({ call: 'OA4T' }),
+          createContact({ call: 'OA4EFJ', time_on: '121000' }),
+        ],
+      ],
+      ['OA4EFJ', [createContact({ call: 'OA4P', time_on: '121000' })]],
+    ]
+
+    const result = scoreContest(submissions, rules)
+
+    // (5 - 3 for the NIL - 1 for the contact outside the contest) x 2
+    expect(getScoreForCallsign(result, 'OA4T')).toBe(2)
+    expect(getScoreForCallsign(result, 'OA4P')).toBe(20)
+
+    const details = getScoringDetailsForCallsign(result, 'OA4T')!
+    expect(details.givenPenalty).toBe(-4)
+    expect(details.contacts[1]!.penaltyRule).toBe('invalidationReason')
+    expect(details.contacts[1]!.givenPenalty).toBe(-3)
+    expect(details.contacts[2]!.penaltyRule).toBe('default')
+    expect(details.contacts[2]!.givenPenalty).toBe(-1)
+    expect(getScoringDetailsForCallsign(result, 'OA4P')!.givenPenalty).toBe(0)
+  })
+
+  test('scoreContest penalizes dupes only with the penalty dupe policy', () => {
+    const rules: ContestRules = {
+      name: 'Dupe Contest',
+      start: '2025-04-01T00:00:00Z',
+      end: '2025-04-01T23:59:59Z',
+      rules: {
+        validation: ['timeRange', 'dupes'],
+        scoring: [['default', 5]],
+        bonus: [['default', 1]],
+        penalty: [['default', 1]],
+        tiebreaker: [],
+      },
+    }
+
+    const submissions: Participant[] = [
+      [
+        'OA4T',
+        [
+          createContact({ call: 'OA4P' }),
+          createContact({ call: 'OA4P', time_on: '121000' }),
+        ],
+      ],
+    ]
+
+    const zero = scoreContest(submissions, { ...rules, dupePolicy: 'zero' })
+    expect(getScoreForCallsign(zero, 'OA4T')).toBe(5)
+
+    const penalty = scoreContest(submissions, {
+      ...rules,
+      dupePolicy: ['penalty', 2],
+    })
+    expect(getScoreForCallsign(penalty, 'OA4T')).toBe(3)
+
+    const dupe = getScoringDetailsForCallsign(penalty, 'OA4T')!.contacts[1]!
+    expect(dupe.dupePolicy).toBe('penalty')
+    expect(dupe.penaltyRule).toBeNull()
+    expect(dupe.givenPenalty).toBe(-2)
+  })
+})
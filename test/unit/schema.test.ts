@@ -0,0 +1,234 @@
+import { describe, test, expect } from 'bun:test'
+import type { ContestRules } from '../../src/lib/types'
+import {
+  validateAdjudications,
+  validateContestRules,
+} from '../../src/lib/schema'
+
+describe('Rules validation', () => {
+  const rules: ContestRules = {
+    name: 'Test Contest',
+    start: '2025-04-01T00:00:00Z',
+    end: '2025-04-02T23:59:59Z',
+    blacklist: ['OA4X'],
+    dupePolicy: ['penalty', 2],
+    rules: {
+      validation: [
+        'timeRange',
+        ['bands', { '40m': ['7.000', '7.300'], '20m': ['14.000', '14.350'] }],
+        ['mode', ['SSB', 'CW']],
+        [
+          'uniqueContactsByTimeRange',
+          {
+            day1: ['2025-04-01T00:00:00Z', '2025-04-01T23:59:59Z'],
+            day2: ['2025-04-02T00:00:00Z', '2025-04-02T23:59:59Z'],
+          },
+        ],
+        ['exchange', '^[0-9]{3}$'],
+        ['default', { maximumTimeDiff: 5, serials: { tolerance: 1 } }],
+      ],
+      scoring: [
+        ['timeRange', { day1: 1, day2: 2 }],
+        ['minimumContacts', 2],
+      ],
+      bonus: [['default', 1]],
+      multipliers: [['field', { field: 'state', per: 'band' }]],
+      tiebreaker: ['validStations', 'minimumTime'],
+    },
+  }
+
+  test('accepts valid rules', () => {
+    expect(validateContestRules(rules)).toEqual([])
+  })
+
+  test('reports missing keys, wrong types and unparseable dates', () => {
+    expect(
+      validateContestRules({
+        start: 'first of april',
+        end: '2025-04-02T23:59:59Z',
+        blacklist: 'OA4X',
+        rules: { validation: [], scoring: [] },
+      })
+    ).toEqual([
+      { path: 'name', message: 'Missing required key' },
+      { path: 'start', message: 'Unparseable date "first of april"' },
+      { path: 'blacklist', message: 'Expected an array, found a string' },
+      { path: 'rules.bonus', message: 'Missing required key' },
+    ])
+  })
+
+  test('reports unknown keys and rule names with suggestions', () => {
+    expect(
+      validateContestRules({
+        ...rules,
+        rules: {
+          ...rules.rules,
+          validation: [['bandz', {}], 'timeRange'],
+          tiebreaker: undefined,
+          tiebraker: ['validStations'],
+        },
+      })
+    ).toEqual([
+      {
+        path: 'rules.validation[0]',
+        message: 'Unknown rule "bandz" (did you mean "bands"?)',
+      },
+      {
+        path: 'rules.tiebraker',
+        message: 'Unknown key (did you mean "tiebreaker"?)',
+      },
+    ])
+  })
+
+  test('reports wrong rule parameters with their JSON path', () => {
+    expect(
+      validateContestRules({
+        ...rules,
+        rules: {
+          ...rules.rules,
+          validation: [
+            ['default', { maximumTimeDiff: '5' }],
+            ['bands', { '40m': ['7.300', '7.000'] }],
+            'mode',
+            ['exchange', '[0-9'],
+            ['timeRange', true],
+          ],
+          multipliers: [['dxcc', { by: 'zone' }]],
+        },
+      })
+    ).toEqual([
+      {
+        path: 'rules.validation[0][1].maximumTimeDiff',
+        message: 'Expected a number, found a string',
+      },
+      {
+        path: 'rules.validation[1][1]["40m"]',
+        message: 'The band ends before it starts',
+      },
+      {
+        path: 'rules.validation[2]',
+        message: 'The "mode" rule requires parameters',
+      },
+      {
+        path: 'rules.validation[3][1]',
+        message: 'Invalid regular expression "[0-9"',
+      },
+      {
+        path: 'rules.validation[4][1]',
+        message: 'The "timeRange" rule takes no parameters',
+      },
+      {
+        path: 'rules.multipliers[0][1].by',
+        message:
+          'Expected one of prefix, continent, cqZone, ituZone, found "zone"',
+      },
+    ])
+  })
+
+  test('accepts consecutive time ranges', () => {
+    expect(
+      validateContestRules({
+        ...rules,
+        rules: {
+          ...rules.rules,
+          validation: [
+            [
+              'uniqueContactsByTimeRange',
+              {
+                morning: ['2025-04-01T00:00:00Z', '2025-04-01T12:00:00Z'],
+                afternoon: ['2025-04-01T12:00:00Z', '2025-04-01T18:00:00Z'],
+              },
+            ],
+          ],
+        },
+      })
+    ).toEqual([])
+  })
+
+  test('reports overlapping time ranges and contests ending before they start', () => {
+    expect(
+      validateContestRules({
+        ...rules,
+        end: '2025-03-31T00:00:00Z',
+        rules: {
+          ...rules.rules,
+          validation: [
+            [
+              'uniqueContactsByTimeRange',
+              {
+                morning: ['2025-04-01T00:00:00Z', '2025-04-01T12:00:00Z'],
+                afternoon: ['2025-04-01T11:00:00Z', '2025-04-01T18:00:00Z'],
+                night: ['2025-04-01T23:00:00Z', '2025-04-01T20:00:00Z'],
+              },
+            ],
+          ],
+        },
+      })
+    ).toEqual([
+      {
+        path: 'rules.validation[0][1].afternoon',
+        message: 'The range overlaps with "morning"',
+      },
+      {
+        path: 'rules.validation[0][1].night',
+        message: 'The range ends before it starts',
+      },
+      { path: 'end', message: 'The contest ends before it starts' },
+    ])
+  })
+})
+
+describe('Adjudications validation', () => {
+  test('accepts a well-formed adjudications file', () => {
+    expect(
+      validateAdjudications({
+        contacts: {
+          OA4T: [
+            {
+              call: 'OA4P',
+              date: '20250401',
+              time: '1200',
+              band: '20m',
+              valid: true,
+              note: 'Confirmed',
+            },
+          ],
+        },
+        disqualified: { OA4EFJ: 'Unclaimed assistance' },
+        adjustments: { OA4T: [{ points: -10, note: 'Late log' }] },
+      })
+    ).toEqual([])
+  })
+
+  test('reports every problem along with its JSON path', () => {
+    expect(
+      validateAdjudications({
+        contacts: {
+          OA4T: [
+            { call: 'OA4P', date: '2025-04-01', time: '1200', valid: 'yes' },
+          ],
+        },
+        adjustments: { OA4T: { points: 5 } },
+        disqualifed: {},
+      })
+    ).toEqual([
+      {
+        path: 'contacts.OA4T[0].date',
+        message: 'Expected a YYYYMMDD date, found "2025-04-01"',
+      },
+      {
+        path: 'contacts.OA4T[0].valid',
+        message: 'Expected a boolean, found a string',
+      },
+      { path: 'contacts.OA4T[0].note', message: 'Missing required key' },
+      {
+        path: 'adjustments.OA4T',
+        message: 'Expected an array, found a object',
+      },
+      {
+        path: 'disqualifed',
+        message: 'Unknown key (did you mean "disqualified"?)',
+      },
+    ])
+  })
+})
@@ -5,6 +5,7 @@ import type {
   ValidContact,
   RulesContext,
   ContestResult,
+  ParticipantScoringDetail,
 } from '../../src/lib/types'
 import { scorers } from 'lib/rules/scorers'
 import { scoreContacts } from 'lib/scorer'
@@ -324,6 +325,162 @@ describe('Scorers', () => {
     expect(getScoreForCallsign(result, 'OA4T')).toBe(9)
   })
 
+  test('relativeLocationScorer scores by the location of the contacted station', () => {
+    const peru = {
+      name: 'Peru',
+      prefix: 'OA',
+      continent: 'SA',
+      cqZone: 10,
+      ituZone: 12,
+    }
+    const chile = { ...peru, name: 'Chile', prefix: 'CE' }
+    const spain = { ...peru, name: 'Spain', prefix: 'EA', continent: 'EU' }
+    const params = {
+      sameCountry: 1,
+      sameContinent: 2,
+      otherContinent: 3,
+      modes: { CW: { sameContinent: 4, otherContinent: 6 } },
+    }
+    const [ssbContact, cwContact] = validContacts.get('OA4T')!
+
+    const score = (contact: ValidContact, contactedDxcc: typeof peru) =>
+      scorers.relativeLocation(
+        { ...contact, dxcc: peru, contactedDxcc },
+        scoringContext,
+        params
+      )
+
+    expect(score(ssbContact!, peru)).toBe(1)
+    expect(score(ssbContact!, chile)).toBe(2)
+    expect(score(ssbContact!, spain)).toBe(3)
+    expect(score(cwContact!, peru)).toBe(1)
+    expect(score(cwContact!, chile)).toBe(4)
+    expect(score(cwContact!, spain)).toBe(6)
+
+    // Without DXCC information the score is kept
+    expect(
+      scorers.relativeLocation(
+        { ...ssbContact!, score: 5 },
+        scoringContext,
+        params
+      )
+    ).toBe(5)
+  })
+
+  test('distanceScorer scores by km or by distance bands', () => {
+    const contact = { ...validContacts.get('OA4T')![0]!, distance: 250 }
+    const ranges: [number, number][] = [
+      [0, 1],
+      [100, 2],
+      [300, 3],
+    ]
+
+    expect(scorers.distance(contact, scoringContext)).toBe(250)
+    expect(scorers.distance(contact, scoringContext, { perKm: 0.1 })).toBe(25)
+    expect(scorers.distance(contact, scoringContext, { ranges })).toBe(2)
+    expect(
+      scorers.distance({ ...contact, distance: 300 }, scoringContext, {
+        ranges,
+      })
+    ).toBe(3)
+
+    // Without a distance the score is kept
+    expect(
+      scorers.distance(
+        { ...validContacts.get('OA4T')![0]!, score: 5 },
+        scoringContext
+      )
+    ).toBe(5)
+  })
+
+  test('bandModeScorer scores by band and mode with wildcards', () => {
+    const [ssbContact, cwContact] = validContacts.get('OA4T')!
+    const params = {
+      '40M': { CW: 3, SSB: 2 },
+      '20m': { '*': 1 },
+      '*': { CW: 4 },
+    }
+
+    expect(scorers.bandMode(ssbContact!, scoringContext, params)).toBe(1)
+    expect(scorers.bandMode(cwContact!, scoringContext, params)).toBe(3)
+    expect(
+      scorers.bandMode({ ...cwContact!, band: '80m' }, scoringContext, params)
+    ).toBe(4)
+    expect(
+      scorers.bandMode(
+        { ...ssbContact!, band: '80m', score: 7 },
+        scoringContext,
+        params
+      )
+    ).toBe(7)
+  })
+
+  test('scoreContacts records the bandMode cell applied', () => {
+    const scoringDetails = {
+      OA4T: {
+        contacts: [
+          { scoreRule: null, givenScore: 0 },
+          { scoreRule: null, givenScore: 0 },
+        ],
+        bonusRuleApplied: null,
+        givenBonus: 0,
+        hasMinimumAppearances: true,
+      },
+    } as unknown as Record<string, ParticipantScoringDetail>
+
+    const scoredContacts = scoreContacts(
+      new Map([['OA4T', validContacts.get('OA4T')!]]),
+      getRulesContext({
+        ...sampleRules,
+        rules: {
+          ...sampleRules.rules,
+          scoring: [['bandMode', { '40M': { CW: 3 }, '*': { '*': 1 } }]],
+        },
+      }),
+      scoringDetails,
+      new Map()
+    )
+
+    expect(scoredContacts.get('OA4T')!.map(contact => contact.score)).toEqual([
+      1, 3,
+    ])
+    expect(
+      scoringDetails.OA4T!.contacts.map(contact => contact.scoreRule)
+    ).toEqual(['bandMode:*/*', 'bandMode:40M/CW'])
+  })
+
+  test('scoreContacts gives partial credit to contacts with a credit', () => {
+    const scoringDetails = {
+      OA4T: {
+        contacts: [
+          { scoreRule: null, givenScore: 0 },
+          { scoreRule: null, givenScore: 0 },
+        ],
+        bonusRuleApplied: null,
+        givenBonus: 0,
+        hasMinimumAppearances: true,
+      },
+    } as unknown as Record<string, ParticipantScoringDetail>
+    const [first, second] = validContacts.get('OA4T')!
+
+    const scoredContacts = scoreContacts(
+      new Map([['OA4T', [first!, { ...second!, credit: 0.5 }]]]),
+      getRulesContext({
+        ...sampleRules,
+        rules: { ...sampleRules.rules, scoring: [['default', 4]] },
+      }),
+      scoringDetails,
+      new Map()
+    )
+
+    expect(scoredContacts.get('OA4T')!.map(contact => contact.score)).toEqual([
+      4, 2,
+    ])
+    expect(
+      scoringDetails.OA4T!.contacts.map(contact => contact.givenScore)
+    ).toEqual([4, 2])
+  })
+
   test('multiple scoring rules are applied correctly in sequence', () => {
     // Create a contact that should be affected by both timeRange and bonusStations
     const specialContact: ValidContact = {
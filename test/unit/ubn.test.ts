@@ -0,0 +1,118 @@
+import { describe, test, expect } from 'bun:test'
+import type { SimpleAdif } from 'adif-parser-ts'
+import type { ContestRules, Participant } from '../../src/lib/types'
+import { scoreContest } from '../../src/lib'
+import { getUbnReports, formatUbnReport } from 'lib/ubn'
+
+function createContact(
+  overrides = {}
+): NonNullable<SimpleAdif['records']>[number] {
+  return {
+    qso_date: '20250401',
+    time_on: '120000',
+    band: '20m',
+    freq: '14.000',
+    mode: 'SSB',
+    ...overrides,
+  }
+}
+
+describe('UBN reports', () => {
+  const rules: ContestRules = {
+    name: 'UBN Contest',
+    start: '2025-04-01T00:00:00Z',
+    end: '2025-04-01T23:59:59Z',
+    allowMissingParticipants: true,
+    rules: {
+      validation: [
+        'timeRange',
+        [
+          'uniqueContactsByTimeRange',
+          { day1: ['2025-04-01T00:00:00Z', '2025-04-01T23:59:59Z'] },
+        ],
+        ['default', { maximumTimeDiff: 5 }],
+      ],
+      scoring: [['default', 1]],
+      bonus: [['default', 1]],
+      tiebreaker: [],
+    },
+  }
+
+  const submissions: Participant[] = [
+    [
+      'OA4T',
+      [
+        createContact({ call: 'OA4P' }),
+        createContact({ call: 'OA4Q', time_on: '121000' }),
+        createContact({ call: 'OA4EFJ', time_on: '122000' }),
+        createContact({ call: 'OA4P', time_on: '123000' }),
+        createContact({ call: 'OA4XYZ', time_on: '124000' }),
+      ],
+    ],
+    [
+      'OA4P',
+      [
+        createContact({ call: 'OA4T' }),
+        createContact({ call: 'OA4T', time_on: '121000' }),
+        createContact({ call: 'OA4T', time_on: '123000' }),
+        createContact({ call: 'OA4Q', time_on: '131000' }),
+      ],
+    ],
+    [
+      'OA4Q',
+      [
+        createContact({ call: 'OA4EFJ', time_on: '130000' }),
+        createContact({ call: 'OA4P', time_on: '131000' }),
+      ],
+    ],
+    ['OA4EFJ', [createContact({ call: 'OA4Q', time_on: '130000' })]],
+  ]
+
+  test('getUbnReports lists unique, busted, not-in-log and dupe contacts', () => {
+    const reports = getUbnReports(scoreContest(submissions, rules))
+    const report = reports.OA4T!
+
+    expect(report.unique.map(entry => entry.call)).toEqual(['OA4XYZ'])
+    expect(report.busted).toEqual([
+      {
+        call: 'OA4Q',
+        date: '20250401',
+        time: '121000',
+        band: '20m',
+        mode: 'SSB',
+        correctCallsign: 'OA4P',
+      },
+    ])
+    expect(report.notInLog.map(entry => entry.call)).toEqual(['OA4EFJ'])
+    expect(report.dupes.map(entry => entry.time)).toEqual(['123000'])
+
+    // Calls worked from several logs are not unique
+    expect(reports.OA4Q!.unique).toEqual([])
+    expect(Object.keys(reports).sort()).toEqual([
+      'OA4EFJ',
+      'OA4P',
+      'OA4Q',
+      'OA4T',
+    ])
+  })
+
+  test('formatUbnReport renders every section as plain text', () => {
+    const report = getUbnReports(scoreContest(submissions, rules)).OA4T!
+    const text = formatUbnReport('OA4T', report)
+
+    expect(text).toContain('UBN report for OA4T')
+    expect(text).toContain('Unique calls (1):')
+    expect(text).toContain('Busted calls (1):')
+    expect(text).toContain('20250401 1210 20m   SSB   OA4Q -> OA4P')
+    expect(text).toContain('Not in log (1):')
+    expect(text).toContain('Duplicates (1):')
+
+    const emptyText = formatUbnReport('OA4Q', {
+      unique: [],
+      busted: [],
+      notInLog: [],
+      dupes: [],
+    })
+    expect(emptyText).toContain('Busted calls (0):\n  None')
+  })
+})
@@ -4,7 +4,11 @@ import {
   parseDateTime,
   getTimeDiffInMinutes,
   formatDateTime,
+  formatCsvField,
   areFrequenciesWithinTolerance,
+  parseLocator,
+  findLocator,
+  getLocatorDistance,
 } from 'utils'
 
 describe('Utils', () => {
@@ -48,6 +52,12 @@ describe('Utils', () => {
     expect(formatted).toBe('2024-12-25 15:30:00Z')
   })
 
+  test('formatCsvField quotes fields with commas and quotes', () => {
+    expect(formatCsvField('Radio Club')).toBe('Radio Club')
+    expect(formatCsvField('Radio Club, Lima')).toBe('"Radio Club, Lima"')
+    expect(formatCsvField('The "DX" Club')).toBe('"The ""DX"" Club"')
+  })
+
   test('areFrequenciesWithinTolerance handles floating point precision correctly', () => {
     // Test with the specific case mentioned in the bug report (7.1 vs 7.097 with 0.002 tolerance)
     expect(areFrequenciesWithinTolerance(7.1, 7.097, 0.002)).toBe(false) // Difference is 0.003, above tolerance
@@ -66,4 +76,28 @@ describe('Utils', () => {
     expect(areFrequenciesWithinTolerance(14.0, 14.0005, 0.001)).toBe(true) // Within tolerance
     expect(areFrequenciesWithinTolerance(14.0, 14.0015, 0.001)).toBe(false) // Outside tolerance
   })
+
+  test('parseLocator returns the center of 4, 6 and 8 character locators', () => {
+    expect(parseLocator('FH17')).toEqual({ latitude: -12.5, longitude: -77 })
+    expect(parseLocator('fh17mw')).toEqual({
+      latitude: -12.0625,
+      longitude: -76.95833333333333,
+    })
+    expect(parseLocator('JO22AB12')!.longitude).toBeCloseTo(4.0125)
+    expect(parseLocator('ZZ00')).toBeNull()
+    expect(parseLocator('FH1')).toBeNull()
+    expect(parseLocator('FH17M')).toBeNull()
+  })
+
+  test('findLocator finds the locator in an exchange', () => {
+    expect(findLocator('001 fh17')).toBe('FH17')
+    expect(findLocator('001')).toBe('')
+  })
+
+  test('getLocatorDistance returns the great-circle distance in km', () => {
+    expect(getLocatorDistance('FH17', 'FH18')).toBeCloseTo(111.19, 2)
+    expect(getLocatorDistance('IO91WM', 'FN31PR')).toBeCloseTo(5414.7, 1)
+    expect(getLocatorDistance('FH17', 'FH17')).toBe(0)
+    expect(getLocatorDistance('FH17', '')).toBeNull()
+  })
 })
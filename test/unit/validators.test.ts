@@ -8,15 +8,21 @@ import type {
   RulesContext,
   ParticipantScoringDetail,
   ContactValidatorResult,
+  Contact,
+  ExchangeField,
 } from '../../src/lib/types'
 import {
+  auditSentSerials,
+  crossCheckContact,
   defaultValidator,
   minimumContactsValidator,
   uniqueContactsByTimeRangeValidator,
+  findDupeOriginal,
   validators,
 } from 'lib/rules/validators'
 import { validateContacts } from 'lib/validator'
 import { getRulesContext } from 'lib/precalculate'
+import { getExchangeFields } from 'lib/exchange'
 
 // Test fixtures and helper functions
 function createContact(
@@ -481,6 +487,130 @@ describe('Validators', () => {
         )
       ).toBe(true)
     })
+
+    test('findDupeOriginal finds earlier contacts sharing the dupe key', () => {
+      const original = createValidContact(createContact(), 'OA4T', 0)
+      const accepted = [
+        original,
+        createValidContact(createContact({ band: '40m' }), 'OA4T', 1),
+      ]
+
+      const sameBand = createValidContact(
+        createContact({ mode: 'CW', time_on: '121000' })
+      )
+      const otherBand = createValidContact(
+        createContact({ band: '15m', time_on: '121000' })
+      )
+
+      expect(findDupeOriginal(sameBand, accepted)).toBeUndefined()
+      expect(findDupeOriginal(sameBand, accepted, { key: 'band' })).toBe(
+        original
+      )
+      expect(findDupeOriginal(otherBand, accepted, { key: 'mode' })).toBe(
+        accepted[1]!
+      )
+      expect(
+        findDupeOriginal(otherBand, accepted, { key: 'contest' })
+      ).toBeDefined()
+      expect(
+        findDupeOriginal(sameBand, accepted, { key: 'band', minimumGap: 10 })
+      ).toBeUndefined()
+      expect(
+        findDupeOriginal(sameBand, accepted, { key: 'band', minimumGap: 15 })
+      ).toBe(original)
+    })
+
+    test('validateContacts marks dupes with the contact they repeat', () => {
+      const rules: ContestRules = {
+        ...sampleRules,
+        rules: {
+          ...sampleRules.rules,
+          validation: ['timeRange', ['dupes', { key: 'band' }]],
+        },
+      }
+
+      const result = validateContacts(
+        [
+          [
+            'OA4T',
+            [
+              createContact({ time_on: '120000' }),
+              createContact({ call: 'OA4EFJ', time_on: '120500' }),
+              createContact({ time_on: '121000', mode: 'CW' }),
+              createContact({ time_on: '121500', band: '40m', freq: '7.100' }),
+            ],
+          ],
+        ],
+        getRulesContext(rules)
+      )
+
+      expect(
+        getContactsFromResult(result, 'OA4T').map(
+          contact => contact.scoringDetailsIndex
+        )
+      ).toEqual([0, 1, 3])
+
+      const dupe = result.scoringDetails.OA4T!.contacts![2]!
+      expect(dupe.invalidValidationRule).toBe('dupes')
+      expect(dupe.invalidationReason).toBe('dupe')
+      expect(dupe.dupeOf).toBe(0)
+    })
+
+    test('the dupe policy decides which copy of a dupe is kept', () => {
+      const submissions: Participant[] = [
+        [
+          'OA4T',
+          [
+            createContact({ time_on: '120000' }),
+            createContact({ time_on: '121000' }),
+          ],
+        ],
+        ['OA4P', [createContact({ call: 'OA4T', time_on: '121000' })]],
+      ]
+
+      const validate = (dupePolicy: ContestRules['dupePolicy']) =>
+        validateContacts(
+          submissions,
+          getRulesContext({
+            ...sampleRules,
+            dupePolicy,
+            rules: {
+              ...sampleRules.rules,
+              validation: [['default', { maximumTimeDiff: 5 }], 'dupes'],
+            },
+          })
+        )
+
+      // The first contact fails the cross-check, so the second one is kept
+      const keepFirstValid = validate(undefined)
+      expect(
+        getContactsFromResult(keepFirstValid, 'OA4T').map(
+          contact => contact.scoringDetailsIndex
+        )
+      ).toEqual([1])
+      expect(
+        keepFirstValid.scoringDetails.OA4T!.contacts![0]!.invalidationReason
+      ).toBe('timeMismatch')
+
+      // The second contact repeats the first one logged
+      const zero = validate('zero')
+      expect(getContactsFromResult(zero, 'OA4T')).toEqual([])
+      expect(zero.scoringDetails.OA4T!.contacts![1]).toMatchObject({
+        invalidValidationRule: 'dupes',
+        invalidationReason: 'dupe',
+        dupeOf: 0,
+        dupePolicy: 'zero',
+      })
+
+      // Ignored dupes are dropped without being marked as invalid
+      const ignore = validate('ignore')
+      expect(getContactsFromResult(ignore, 'OA4T')).toEqual([])
+      expect(ignore.scoringDetails.OA4T!.contacts![1]).toMatchObject({
+        invalidValidationRule: null,
+        dupeOf: 0,
+        dupePolicy: 'ignore',
+      })
+    })
   })
 
   describe('Exchange and QSO Data Validation', () => {
@@ -826,6 +956,306 @@ describe('Validators', () => {
         })
       ).toBe(true)
     })
+
+    test('crossCheckContact classifies why a contact failed the cross-check', () => {
+      const theirContact = {
+        callsign: 'OA4P',
+        contactedCallsign: 'OA4T',
+        date: '20241210',
+        time: '120000',
+        freq: '14.000',
+        band: '20m',
+        mode: 'SSB',
+        score: 0,
+        exchanges: {
+          rstSent: '59',
+          rstRcvd: '59',
+          stxString: '456',
+          srxString: '123',
+        },
+        scoringDetailsIndex: 0,
+      }
+      const contactIndex = new Map([
+        ['OA4P', new Map([['OA4T', new Map([['20m-SSB', [theirContact]]])]])],
+      ])
+      const exchange = {
+        rst_sent: '59',
+        rst_rcvd: '59',
+        stx_string: '123',
+        srx_string: '456',
+      }
+      const classify = (overrides: Record<string, string>) =>
+        crossCheckContact(
+          'OA4T',
+          createValidContact(createContact({ ...exchange, ...overrides })),
+          contactIndex,
+          { maximumTimeDiff: 5 }
+        ).reason
+
+      expect(classify({})).toBeNull()
+      expect(classify({ call: 'HC1ABC' })).toBe('notInLog')
+      expect(classify({ time_on: '130000' })).toBe('timeMismatch')
+      expect(classify({ band: '40m' })).toBe('bandMismatch')
+      expect(classify({ mode: 'CW' })).toBe('modeMismatch')
+      expect(classify({ freq: '14.010' })).toBe('frequencyMismatch')
+      expect(classify({ stx_string: '100' })).toBe('exchangeMismatch')
+      expect(classify({ rst_rcvd: '57' })).toBe('exchangeMismatch')
+    })
+
+    test('crossCheckContact compares declared exchange fields with their tolerance', () => {
+      const exchangeFields: ExchangeField[] = [
+        { name: 'serial', type: 'number', source: 'SRX', tolerance: 1 },
+        { name: 'state', source: 'STATE' },
+        { name: 'note', source: 'COMMENT', crossCheck: false },
+      ]
+      const withFields = (contact: ValidContact, raw: Contact) => ({
+        ...contact,
+        exchanges: {
+          ...contact.exchanges,
+          fields: getExchangeFields(raw, exchangeFields),
+        },
+      })
+      const theirRaw = createContact({
+        call: 'OA4T',
+        stx: '10',
+        srx: '20',
+        my_state: 'LIM',
+        state: 'CUS',
+        comment: 'HELLO',
+      })
+      const theirContact = withFields(
+        createValidContact(theirRaw, 'OA4P'),
+        theirRaw
+      )
+      const contactIndex = new Map([
+        ['OA4P', new Map([['OA4T', new Map([['20m-SSB', [theirContact]]])]])],
+      ])
+      const classify = (overrides: Record<string, string>) => {
+        const raw = createContact({
+          stx: '20',
+          srx: '10',
+          my_state: 'CUS',
+          state: 'LIM',
+          comment: 'BYE',
+          ...overrides,
+        })
+        return crossCheckContact(
+          'OA4T',
+          withFields(createValidContact(raw), raw),
+          contactIndex,
+          { maximumTimeDiff: 5 },
+          exchangeFields
+        ).reason
+      }
+
+      expect(classify({})).toBeNull()
+      expect(classify({ srx: '11' })).toBeNull()
+      expect(classify({ srx: '12' })).toBe('exchangeMismatch')
+      expect(classify({ state: 'LIN' })).toBe('exchangeMismatch')
+      expect(classify({ my_state: 'ARE' })).toBe('exchangeMismatch')
+    })
+
+    test('crossCheckContact detects busted callsigns and their probable correct call', () => {
+      const bustedContact = createValidContact(
+        createContact({ call: 'OA4Q', time_on: '120100' })
+      )
+      const theirContact = createValidContact(
+        createContact({ call: 'OA4T' }),
+        'OA4P'
+      )
+      const contactIndex = new Map([
+        ['OA4P', new Map([['OA4T', new Map([['20m-SSB', [theirContact]]])]])],
+        ['OA4Q', new Map()],
+      ])
+
+      expect(
+        crossCheckContact('OA4T', bustedContact, contactIndex, {
+          maximumTimeDiff: 5,
+        })
+      ).toEqual({ reason: 'bustedCallsign', correctCallsign: 'OA4P' })
+
+      // Calls too different from the logged one are not considered busted
+      const unrelatedContact = createValidContact(
+        createContact({ call: 'HC1XYZ', time_on: '120100' })
+      )
+      expect(
+        crossCheckContact('OA4T', unrelatedContact, contactIndex, {
+          maximumTimeDiff: 5,
+        })
+      ).toEqual({ reason: 'notInLog' })
+    })
+
+    test('validateContacts records the cross-check reason in scoring details', () => {
+      const rules: ContestRules = {
+        ...sampleRules,
+        rules: {
+          ...sampleRules.rules,
+          validation: [['default', { maximumTimeDiff: 5 }]],
+        },
+      }
+
+      const result = validateContacts(
+        [
+          [
+            'OA4T',
+            [
+              createContact({ call: 'OA4Q', freq: '14.000' }),
+              createContact({ call: 'OA4EFJ', time_on: '130000' }),
+            ],
+          ],
+          ['OA4P', [createContact({ call: 'OA4T' })]],
+          ['OA4Q', [createContact({ call: 'OA4EFJ' })]],
+          ['OA4EFJ', [createContact({ call: 'OA4Q' })]],
+        ],
+        getRulesContext(rules)
+      )
+
+      const [busted, nil] = result.scoringDetails.OA4T!.contacts!
+      expect(busted!.invalidValidationRule).toBe('default')
+      expect(busted!.invalidationReason).toBe('bustedCallsign')
+      expect(busted!.correctCallsign).toBe('OA4P')
+      expect(nil!.invalidValidationRule).toBe('default')
+      expect(nil!.invalidationReason).toBe('notInLog')
+      expect(result.scoringDetails.OA4Q!.contacts![0]!.invalidationReason).toBe(
+        null
+      )
+    })
+    test('the serial cross-check gives partial credit for copying errors', () => {
+      const rules: ContestRules = {
+        ...sampleRules,
+        rules: {
+          ...sampleRules.rules,
+          validation: [
+            ['default', { maximumTimeDiff: 5, serials: { tolerance: 1 } }],
+          ],
+        },
+      }
+
+      const result = validateContacts(
+        [
+          [
+            'OA4T',
+            [
+              createContact({ call: 'OA4P', stx: '1', srx: '1' }),
+              createContact({ call: 'OA4Q', stx: '2', srx: '6' }),
+              createContact({ call: 'OA4EFJ', stx: '3', srx: '4' }),
+            ],
+          ],
+          ['OA4P', [createContact({ call: 'OA4T', stx: '1', srx: '1' })]],
+          ['OA4Q', [createContact({ call: 'OA4T', stx: '2', srx: '2' })]],
+          ['OA4EFJ', [createContact({ call: 'OA4T', stx: '5', srx: '3' })]],
+        ],
+        getRulesContext(rules)
+      )
+
+      expect(result.validContacts.get('OA4T')!.map(c => c.credit)).toEqual([
+        undefined,
+        0.5,
+      ])
+      const [exact, mismatch, copyingError] =
+        result.scoringDetails.OA4T!.contacts!
+      expect(exact!.credit).toBeUndefined()
+      expect(copyingError!.credit).toBe(0.5)
+      expect(copyingError!.creditReason).toBe('copyingError')
+      expect(mismatch!.invalidationReason).toBe('exchangeMismatch')
+      expect(result.scoringDetails.OA4T!.serialAudit).toEqual([])
+    })
+
+    test('partialCredit gives credit to contacts with a miscopied exchange', () => {
+      const rules: ContestRules = {
+        ...sampleRules,
+        rules: {
+          ...sampleRules.rules,
+          validation: [
+            [
+              'default',
+              {
+                maximumTimeDiff: 5,
+                partialCredit: { receivedExchange: 0.5, sentExchange: 1 },
+              },
+            ],
+          ],
+        },
+      }
+
+      const result = validateContacts(
+        [
+          ['OA4T', [createContact({ stx_string: '001', srx_string: '003' })]],
+          [
+            'OA4P',
+            [
+              createContact({
+                call: 'OA4T',
+                stx_string: '002',
+                srx_string: '001',
+              }),
+            ],
+          ],
+        ],
+        getRulesContext(rules)
+      )
+
+      const [miscopied] = result.scoringDetails.OA4T!.contacts!
+      expect(miscopied!.invalidValidationRule).toBeNull()
+      expect(miscopied!.credit).toBe(0.5)
+      expect(miscopied!.creditReason).toBe('receivedExchangeMismatch')
+      const [copied] = result.scoringDetails.OA4P!.contacts!
+      expect(copied!.credit).toBe(1)
+      expect(copied!.creditReason).toBe('sentExchangeMismatch')
+      expect(result.validContacts.get('OA4T')![0]!.credit).toBe(0.5)
+    })
+
+    test('stations logging no signal reports are not checked for them', () => {
+      const rules: ContestRules = {
+        ...sampleRules,
+        rules: {
+          ...sampleRules.rules,
+          validation: [['default', { maximumTimeDiff: 5 }]],
+        },
+      }
+
+      const result = validateContacts(
+        [
+          ['OA4T', [createContact()]],
+          [
+            'OA4P',
+            [createContact({ call: 'OA4T', rst_sent: '59', rst_rcvd: '59' })],
+          ],
+        ],
+        getRulesContext(rules)
+      )
+
+      const [contact] = result.scoringDetails.OA4T!.contacts!
+      expect(contact!.invalidValidationRule).toBeNull()
+      expect(contact!.credit).toBeUndefined()
+      expect(result.validContacts.get('OA4T')).toHaveLength(1)
+    })
+
+    test('auditSentSerials flags sent serials that go backwards or skip', () => {
+      const contacts = [
+        ['120000', '1'],
+        ['120100', '2'],
+        ['120200', '20'],
+        ['120400', '20'],
+        ['120300', '21'],
+        ['120500', '19'],
+      ].map(([time_on, stx], index) => ({
+        ...createValidContact(createContact({ time_on }), 'OA4T', index),
+        exchanges: {
+          rstSent: '',
+          rstRcvd: '',
+          stxString: '',
+          srxString: '',
+          stx,
+        },
+      }))
+
+      expect(auditSentSerials(contacts, 10)).toEqual([
+        { index: 2, serial: 20, previousSerial: 2, issue: 'gap' },
+        { index: 3, serial: 20, previousSerial: 21, issue: 'backwards' },
+        { index: 5, serial: 19, previousSerial: 20, issue: 'backwards' },
+      ])
+    })
   })
 
   describe('Participation and Minimum Requirements', () => {
@@ -1262,5 +1692,47 @@ describe('Validators', () => {
       )
       expect(filteredContacts.validContacts.size).toBe(0)
     })
+
+    test('validateContacts compares bands in any case', () => {
+      const bandRules: ContestRules = {
+        ...sampleRules,
+        rules: {
+          ...sampleRules.rules,
+          validation: [
+            ['bands', { '20M': ['14.000', '14.350'] }],
+            ['default', { maximumTimeDiff: 5 }],
+          ],
+        },
+      }
+
+      // Bands logged by ADIF and Cabrillo logs, and named by the rules
+      const result = validateContacts(
+        [
+          ['OA4T', [createContact({ band: '20M' })]],
+          ['OA4P', [createContact({ call: 'OA4T', band: '20m' })]],
+        ],
+        getRulesContext({
+          ...bandRules,
+          rules: {
+            ...bandRules.rules,
+            validation: [['default', { maximumTimeDiff: 5 }]],
+          },
+        })
+      )
+
+      expect(getContactsFromResult(result, 'OA4T')[0]!.band).toBe('20m')
+      expect(getContactsFromResult(result, 'OA4P')[0]!.band).toBe('20m')
+
+      const named = validateContacts(
+        [
+          ['OA4T', [createContact({ band: '' })]],
+          ['OA4P', [createContact({ call: 'OA4T', band: '20m' })]],
+        ],
+        getRulesContext(bandRules)
+      )
+
+      expect(getContactsFromResult(named, 'OA4T')[0]!.band).toBe('20m')
+      expect(getContactsFromResult(named, 'OA4P')[0]!.band).toBe('20m')
+    })
   })
 })